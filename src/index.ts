@@ -36,10 +36,18 @@ export interface FieldOption extends Object {
   P?: string;
   length?: number;
   scale?: number;
+  /** 默认值,SQL 表达式使用 rawSql 指定 */
   def?: any;
+  /** 修改时自动更新的值,仅 mysql 有效,如 SqlDefaults.currentTimestamp */
+  onUpdate?: RawSql;
   index?: boolean;
   id?: boolean;
+  /** 逻辑删除标记,值为删除后的状态;状态字段必须设置 def 作为恢复后的状态 */
   logicDelete?: string | number;
+  /** 逻辑删除时间,删除时写入当前时间,NULL 表示未删除 */
+  deletedAt?: boolean;
+  /** 逻辑删除人,删除时写入传入的用户 */
+  deletedBy?: boolean;
   /** 是否逻辑唯一，用于导入时检测数据是否存在 */
   logicId?: boolean;
   /** 仅在生成 表时有效 */
@@ -50,10 +58,26 @@ export interface FieldOption extends Object {
   importable?: boolean;
   /** 可以导出的字段,默认TRUE,ID默认FALSE */
   exportable?: boolean;
-  /** sqlite 无效,与UUID只能有一个 */
+  /** 绑定的枚举,Enum 数组或 EnumMap;导入导出时转换为显示文本 */
+  enum?: Enum[] | EnumMap;
+  /** sqlite 无效,与UUID只能有一个;fillIds 会按 mysql uuid_short() 的规则生成,所有数据库通用 */
   uuidShort?: boolean;
-  /** 与uuidShort只能有一个 */
+  /** 与uuidShort只能有一个;fillIds 会生成 UUIDv4 */
   uuid?: boolean;
+  /** ID 生成方式,由 fillIds 在新增前赋值,优先于 uuid、uuidShort */
+  idGenerator?: IdGeneratorName | (() => any);
+  /** 单列唯一索引,与index同时设置时只生成唯一索引 */
+  unique?: boolean;
+  /** 列字符集,仅 mysql 的字符类型有效,默认沿用表的字符集 */
+  charset?: string;
+  /** 列排序规则,mysql、postgresql 的字符类型有效 */
+  collate?: string;
+  /** 列名,优先于命名策略 */
+  column?: string;
+  /** 自定义写入转换,替代内置转换;null 也会传入 */
+  Data2SQL?: (data: any, dbType?: DBType) => any;
+  /** 自定义读取转换,替代内置转换;null 也会传入 */
+  SQL2Data?: (data: any, dbType?: DBType) => any;
 }
 /**
  * 路径解析的token类型
@@ -382,9 +406,15 @@ export const _columnsNoId = Symbol('columnsNoId');
 export const _fields = Symbol('fields');
 export const _stateFileName = Symbol('stateFileName');
 export const _deleteState = Symbol('deleteState');
+export const _deletedAt = Symbol('deletedAt');
+export const _deletedBy = Symbol('deletedBy');
 export const _index = Symbol('index');
 export const _def = Symbol('def');
 export const _Hump = Symbol('Hump');
+export const _Naming = Symbol('Naming');
+export const _table = Symbol('table');
+export const _indexes = Symbol('indexes');
+export const _relations = Symbol('relations');
 export enum DBType {
   Mysql,
   Postgresql,
@@ -400,6 +430,37 @@ export const P2C = (pro: string, IF = true) =>
 const C2PEX = /_([a-z])/g;
 export const C2P = (pro: string, IF = true) =>
   IF ? pro.replace(C2PEX, (a: string, b: string) => `${b.toUpperCase()}`) : pro;
+/** 命名策略:属性名与列名、类名与表名的相互转换 */
+export interface NamingStrategy {
+  /** 属性名 => 列名 */
+  column: (P: string) => string;
+  /** 列名 => 属性名,解析建表语句时使用 */
+  property: (C: string) => string;
+  /** 类名 => 表名 */
+  table: (className: string) => string;
+}
+const lowerFirst = (name: string) => name.replace(/^[A-Z]/, (a: string) => a.toLowerCase());
+export const NamingStrategies: Record<'none' | 'snake' | 'upperSnake', NamingStrategy> = {
+  /** 不转换,类名仅首字母小写 */
+  none: { column: P => P, property: C => C, table: lowerFirst },
+  /** userName => user_name */
+  snake: { column: P => P2C(P), property: C => C2P(C), table: name => P2C(lowerFirst(name)) },
+  /** userName => USER_NAME,适用于 oracle 风格的表结构 */
+  upperSnake: { column: P => P2C(P).toUpperCase(), property: C => C2P(C.toLowerCase()), table: name => P2C(lowerFirst(name)).toUpperCase() }
+};
+/**
+ * 为命名策略加上表名、列名前缀
+ * ```typescript
+ * withPrefix(NamingStrategies.snake, { table: 't_', column: 'f_' })
+ * ```
+ */
+export const withPrefix = (strategy: NamingStrategy, prefix: { table?: string; column?: string }): NamingStrategy => ({
+  column: P => `${prefix.column ?? ''}${strategy.column(P)}`,
+  property: C => strategy.property(prefix.column && C.startsWith(prefix.column) ? C.substring(prefix.column.length) : C),
+  table: name => `${prefix.table ?? ''}${strategy.table(name)}`
+});
+/** 全局命名策略:globalThis[_Naming] 优先,其次由 globalThis[_Hump] 决定是否转换驼峰 */
+const defaultNaming = (): NamingStrategy => globalThis[_Naming] ?? (globalThis[_Hump] === false ? NamingStrategies.none : NamingStrategies.snake);
 export interface AField extends FieldOption {
   /** 安全列名 */
   C2: () => string;
@@ -408,389 +469,3512 @@ export interface AField extends FieldOption {
   /** 查询用：b_id bId */
   C3: () => string;
 
-  [DBType.Postgresql]: () => string;
-  [DBType.Mysql]: () => string;
-  [DBType.Sqlite]: () => string;
-  [DBType.SqliteRemote]: () => string;
-  Data2SQL: (data: any) => any;
+  [DBType.Postgresql]: () => string;
+  [DBType.Mysql]: () => string;
+  [DBType.Sqlite]: () => string;
+  [DBType.SqliteRemote]: () => string;
+  /** 按 DBType 或注册的方言名称生成列定义 */
+  render: (dialect: DBType | string) => string;
+  /** 实体值 => 数据库参数,dbType 默认 Mysql */
+  Data2SQL: (data: any, dbType?: DBType) => any;
+  /** 数据库返回值 => 实体值,dbType 默认 Mysql */
+  SQL2Data: (data: any, dbType?: DBType) => any;
+}
+/** mysql 列级字符集,未指定时沿用表的默认字符集 */
+const mysqlCharset = (field: FieldOption) =>
+  `${field.charset ? `CHARACTER SET ${field.charset}` : ''} ${field.collate ? `COLLATE ${field.collate}` : ''}`;
+/** postgresql 列级排序规则 */
+const pgCollate = (field: FieldOption) => field.collate ? `COLLATE "${field.collate}"` : '';
+//#region 值转换
+interface Codec {
+  Data2SQL: (data: any, dbType: DBType) => any;
+  SQL2Data: (data: any, dbType: DBType) => any;
+}
+const isSqlite = (dbType: DBType) => dbType === DBType.Sqlite || dbType === DBType.SqliteRemote;
+const pad = (n: number, length = 2) => `${n}`.padStart(length, '0');
+/** 本地时区的 YYYY-MM-DD */
+const formatDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+/** 本地时区的 HH:mm:ss */
+const formatTime = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+/** 转为日期,纯日期字符串按本地时区解析,与 formatDate 对应 */
+const toDate = (data: any): Date => {
+  if (data instanceof Date) {
+    return data;
+  }
+  const date = typeof data === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(data) : null;
+  return date ? new Date(+date[1]!, +date[2]! - 1, +date[3]!) : new Date(typeof data === 'bigint' ? Number(data) : data);
+};
+const toNumber = (data: any) => typeof data === 'number' ? data : Number(data);
+const numberCodec: Codec = { Data2SQL: toNumber, SQL2Data: toNumber };
+const textCodec: Codec = {
+  Data2SQL: data => data,
+  SQL2Data: data => Buffer.isBuffer(data) ? data.toString('utf8') : data
+};
+const blobCodec: Codec = {
+  Data2SQL: data => data instanceof Uint8Array && !Buffer.isBuffer(data) ? Buffer.from(data) : data,
+  // postgresql 未解析时返回 \x 开头的十六进制
+  SQL2Data: data => Buffer.isBuffer(data) ? data
+    : data instanceof Uint8Array ? Buffer.from(data)
+      : typeof data === 'string' && data.startsWith('\\x') ? Buffer.from(data.substring(2), 'hex')
+        : data
+};
+/** 各 SqlType 的内置转换,null 与 undefined 不会传入 */
+const codecs: Record<SqlType, Codec> = {
+  [SqlType.tinyint]: numberCodec,
+  [SqlType.smallint]: numberCodec,
+  [SqlType.mediumint]: numberCodec,
+  [SqlType.int]: numberCodec,
+  [SqlType.float]: numberCodec,
+  [SqlType.double]: numberCodec,
+  // mysql、postgresql 以字符串返回 decimal
+  [SqlType.decimal]: numberCodec,
+  [SqlType.year]: {
+    Data2SQL: data => data instanceof Date ? data.getFullYear() : toNumber(data),
+    SQL2Data: toNumber
+  },
+  // 实体中以字符串保存,避免超出 Number 的精度
+  [SqlType.bigint]: {
+    Data2SQL: data => BigInt(data),
+    SQL2Data: data => `${data}`
+  },
+  [SqlType.date]: {
+    Data2SQL: (data, dbType) => isSqlite(dbType) ? formatDate(toDate(data)) : toDate(data),
+    SQL2Data: toDate
+  },
+  [SqlType.time]: {
+    Data2SQL: data => data instanceof Date ? formatTime(data) : data,
+    SQL2Data: data => data
+  },
+  [SqlType.datetime]: {
+    Data2SQL: (data, dbType) => isSqlite(dbType) ? toDate(data).toISOString() : toDate(data),
+    SQL2Data: toDate
+  },
+  // sqlite 中以毫秒数保存
+  [SqlType.timestamp]: {
+    Data2SQL: (data, dbType) => isSqlite(dbType) ? +toDate(data) : toDate(data),
+    SQL2Data: toDate
+  },
+  [SqlType.char]: textCodec,
+  [SqlType.varchar]: textCodec,
+  [SqlType.tinytext]: textCodec,
+  [SqlType.text]: textCodec,
+  [SqlType.mediumtext]: textCodec,
+  [SqlType.longtext]: textCodec,
+  [SqlType.tinyblob]: blobCodec,
+  [SqlType.blob]: blobCodec,
+  [SqlType.mediumblob]: blobCodec,
+  [SqlType.longblob]: blobCodec,
+  // 字符串视为已序列化的 JSON;postgresql 的驱动会把数组转为数组字面量,因此统一序列化
+  [SqlType.json]: {
+    Data2SQL: data => typeof data === 'string' ? data : JSON.stringify(data),
+    SQL2Data: data => {
+      const text = Buffer.isBuffer(data) ? data.toString('utf8') : data;
+      return typeof text === 'string' ? JSON.parse(text) : text;
+    }
+  }
+};
+/**
+ * 挂载写入、读取转换:优先使用字段上自定义的转换,其次使用内置转换
+ */
+const bindCodec = (field: AField, config: FieldOption) => {
+  const codec = codecs[field.type ?? SqlType.varchar];
+  const { Data2SQL, SQL2Data } = config;
+  field.Data2SQL = Data2SQL
+    ? (data: any, dbType = DBType.Mysql) => Data2SQL(data, dbType)
+    : (data: any, dbType = DBType.Mysql) => data === null || data === undefined ? data : codec.Data2SQL(data, dbType);
+  field.SQL2Data = SQL2Data
+    ? (data: any, dbType = DBType.Mysql) => SQL2Data(data, dbType)
+    : (data: any, dbType = DBType.Mysql) => data === null || data === undefined ? data : codec.SQL2Data(data, dbType);
+};
+//#endregion
+
+//#region 默认值
+/** 原样输出的 SQL 表达式,可以按方言名称指定不同的写法,default 为通用写法 */
+export interface RawSql {
+  $raw: { default?: string; [dialect: string]: string | undefined };
+}
+/**
+ * SQL 表达式,生成 DDL 时不转义、不加引号
+ * ```typescript
+ * @Field({ type: SqlType.varchar, length: 36, def: rawSql({ postgresql: 'gen_random_uuid()', mysql: '(UUID())' }) })
+ * ```
+ * @param sql 通用写法,或 方言名称 => 写法
+ */
+export function rawSql(sql: string | { default?: string; [dialect: string]: string | undefined }): RawSql {
+  return { $raw: typeof sql === 'string' ? { default: sql } : { ...sql } };
+}
+/** 以 $raw 识别,保存为 JSON 的结构快照也能还原 */
+const isRawSql = (value: any): value is RawSql => value !== null && typeof value === 'object' && !(value instanceof Date) && typeof value.$raw === 'object' && value.$raw !== null;
+/** 常用的默认值表达式 */
+export const SqlDefaults = {
+  currentTimestamp: rawSql('CURRENT_TIMESTAMP'),
+  now: rawSql({ default: 'CURRENT_TIMESTAMP', mysql: 'now()', postgresql: 'now()' }),
+  currentDate: rawSql({ default: 'CURRENT_DATE', mysql: '(CURRENT_DATE)', mssql: 'CAST(GETDATE() AS date)', oracle: 'TRUNC(SYSDATE)', dm: 'TRUNC(SYSDATE)' }),
+  uuid: rawSql({ mysql: '(UUID())', postgresql: 'gen_random_uuid()', sqlite: '(lower(hex(randomblob(16))))', mssql: 'NEWID()', oracle: 'SYS_GUID()', dm: 'SYS_GUID()' })
+};
+/** 表达式在方言下的写法,人大金仓未指定时沿用 postgresql */
+const rawSqlOf = (raw: RawSql, dialect: string, field: AField) => {
+  const sql = raw.$raw[dialect] ?? (dialect === 'kingbase' ? raw.$raw['postgresql'] : undefined) ?? raw.$raw.default;
+  if (sql === undefined) {
+    throw new Error(`${field.P} default not support ${dialect}`);
+  }
+  return sql;
+};
+/** 字符串字面量:mysql 默认把反斜杠视为转义符,mssql 使用 N 前缀 */
+const sqlString = (text: string, dialect: string) => {
+  const quoted = `'${(dialect === 'mysql' ? text.replace(/\\/g, '\\\\') : text).replace(/'/g, `''`)}'`;
+  return dialect === 'mssql' ? `N${quoted}` : quoted;
+};
+/** 按方言为标识符加引号:mysql 使用反引号,mssql 使用方括号,其余使用双引号 */
+const quoteName = (name: string, dialect: DBType | string) => {
+  if (dialect === DBType.Mysql || dialect === 'mysql') {
+    return `\`${name.replace(/`/g, '``')}\``;
+  }
+  return dialect === 'mssql' ? `[${name.replace(/]/g, ']]')}]` : `"${name.replace(/"/g, '""')}"`;
+};
+/** 带引号、可带 schema 的表名 */
+const quoteTable = (name: string, dbType: DBType, schema?: string) =>
+  schema ? `${quoteName(schema, dbType)}.${quoteName(name, dbType)}` : quoteName(name, dbType);
+const MYSQL_EXPRESSION_DEFAULT = [SqlType.tinytext, SqlType.text, SqlType.mediumtext, SqlType.longtext, SqlType.tinyblob, SqlType.blob, SqlType.mediumblob, SqlType.longblob, SqlType.json];
+/** 默认值字面量:数字类型的数字原样输出,日期按字段类型格式化,对象转为 JSON */
+const sqlLiteral = (field: AField, value: any, dialect: string): string => {
+  if (value === null) {
+    return 'NULL';
+  }
+  const numeric = NUMERIC_TYPES.includes(field.type!);
+  if (typeof value === 'boolean') {
+    return numeric ? (value ? '1' : '0') : sqlString(`${value}`, dialect);
+  }
+  if (numeric && (typeof value === 'bigint' || (typeof value === 'number' && isFinite(value)) || (typeof value === 'string' && /^[-+]?\d+(\.\d+)?$/.test(value)))) {
+    return `${value}`;
+  }
+  if (value instanceof Date) {
+    // sqlite 的 timestamp 以毫秒数保存
+    if (dialect === 'sqlite' && field.type === SqlType.timestamp) {
+      return `${+value}`;
+    }
+    return sqlString(field.type === SqlType.date ? formatDate(value) : `${formatDate(value)} ${formatTime(value)}`, dialect);
+  }
+  if (value instanceof Uint8Array) {
+    const hex = Buffer.from(value).toString('hex');
+    switch (dialect) {
+      case 'postgresql':
+      case 'kingbase': return `'\\x${hex}'`;
+      case 'mssql': return `0x${hex}`;
+      case 'oracle':
+      case 'dm': return `HEXTORAW('${hex}')`;
+      default: return `X'${hex}'`;
+    }
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : `${value}`;
+  // mysql 的文本、二进制、json 列只能使用表达式默认值
+  return dialect === 'mysql' && MYSQL_EXPRESSION_DEFAULT.includes(field.type!) ? `(${sqlString(text, dialect)})` : sqlString(text, dialect);
+};
+/** sqlite 中可以直接作为默认值的表达式,其余表达式需要括号 */
+const SQLITE_BARE_DEFAULT = /^(?:CURRENT_(?:TIME|DATE|TIMESTAMP)|NULL|TRUE|FALSE|[-+]?\d+(?:\.\d+)?|'(?:[^']|'')*'|X'[0-9a-f]*'|\(.*\))$/is;
+/** 默认值表达式,sqlite 中按需加括号 */
+const rawDefault = (raw: RawSql, dialect: string, field: AField) => {
+  const sql = rawSqlOf(raw, dialect, field).trim();
+  return dialect === 'sqlite' && !SQLITE_BARE_DEFAULT.test(sql) ? `(${sql})` : sql;
+};
+/** 列定义中的 DEFAULT,mysql 同时输出 ON UPDATE */
+const defaultSql = (field: AField, dialect: string) => [
+  field.def === undefined ? '' : `DEFAULT ${isRawSql(field.def) ? rawDefault(field.def, dialect, field) : sqlLiteral(field, field.def, dialect)}`,
+  dialect === 'mysql' && field.onUpdate ? `ON UPDATE ${rawSqlOf(field.onUpdate, dialect, field)}` : ''
+].filter(item => item !== '').join(' ');
+//#endregion
+
+/** 方言的列定义生成函数:由字段类型与配置生成包含列名的列定义 */
+export type DialectRenderer = (field: AField) => string;
+const dialects = new Map<string, DialectRenderer>();
+/**
+ * 注册方言,已存在的同名方言会被覆盖。注册后所有字段(包括注册前定义的)都可以通过 `field.render(name)` 生成列定义
+ * ```typescript
+ * registerDialect('kingbase', field => field.render(DBType.Postgresql));
+ * ```
+ * @param name 方言名称
+ * @param renderer 列定义生成函数
+ */
+export const registerDialect = (name: string, renderer: DialectRenderer) => {
+  dialects.set(name, renderer);
+};
+/** 已注册的方言名称 */
+export const dialectNames = () => [...dialects.keys()];
+const renderColumn = (field: AField, dialect: DBType | string) => {
+  if (typeof dialect === 'number') {
+    const render = field[dialect as DBType.Mysql | DBType.Postgresql | DBType.Sqlite | DBType.SqliteRemote];
+    if (typeof render !== 'function') {
+      throw new Error(`column render not support ${DBType[dialect]}`);
+    }
+    return render();
+  }
+  const renderer = dialects.get(dialect);
+  if (!renderer) {
+    throw new Error(`dialect ${dialect} not registered`);
+  }
+  return renderer(field);
+};
+/**
+ * 为字段配置挂载列名方法与各数据库的列定义方法
+ * @param config 字段配置,会被直接改写为 AField
+ * @param propertyName 属性名
+ * @param naming 未指定列名时使用的命名策略,调用列名方法时才读取
+ */
+const buildField = (config: FieldOption, propertyName: string, naming: () => NamingStrategy = defaultNaming): AField => {
+  config.type ??= SqlType.varchar;
+  // 兼容以字符串 C 指定列名的写法
+  const legacy = (config as { C?: unknown }).C;
+  if (typeof legacy === 'string') {
+    config.column ??= legacy;
+  }
+  const field = config as AField;
+  const column = () => config.column ?? naming().column(propertyName);
+  field.P = propertyName;
+  enumItems(field);
+  field.C = column;
+  field.C2 = column;
+  field.C3 = () => `${column()} ${propertyName}`;
+  field.render = (dialect: DBType | string) => renderColumn(field, dialect);
+  bindCodec(field, config);
+  switch (field.type) {
+    case SqlType.tinyint: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} tinyint ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'mysql')
+        }`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} int2 ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'postgresql')
+        }`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} integer ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.smallint: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} smallint ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')}`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} int2 ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'postgresql')
+        }`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} integer ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.mediumint: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} mediumint ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')}`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} int4 ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'postgresql')
+        }`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} integer ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.int: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} int ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'mysql')
+        }`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} int4 ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'postgresql')
+        }`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} integer ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.bigint: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} bigint ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')}`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} int8 ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')}`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} integer ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.float: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} float${config.length !== undefined ? `(${precisionOf(config)})` : ''} ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')} `;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} float4 ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')} `;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} real ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.double: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} double${config.length !== undefined ? `(${precisionOf(config)})` : ''} ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')} `;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} float8 ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')} `;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} real ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.decimal: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} decimal(${precisionOf(config)}) ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')} `;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} numeric(${precisionOf(config)}) ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')} `;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} real ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.longtext: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} longtext ${mysqlCharset(field)} ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')}`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} text ${pgCollate(field)} ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')}`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.mediumtext: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} mediumtext ${mysqlCharset(field)} ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')}`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} text ${pgCollate(field)} ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')}`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.text: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} text ${mysqlCharset(field)} ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')}`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} text ${pgCollate(field)} ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')}`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.date: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} date ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')}`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} date ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')}`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.time: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} time ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')}`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} time ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')}`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.year: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} year ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')}`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} int4 ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')}`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.datetime: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} datetime ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')}`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} timestamp ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')}`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.timestamp: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} timestamp ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')}`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} timestamp ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')}`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} integer ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.char: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} char(${config.length ?? 1}) ${mysqlCharset(field)} ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')}`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} char(${config.length ?? 1}) ${pgCollate(field)} ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')}`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.varchar: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} varchar(${config.length ?? 1}) ${mysqlCharset(field)} ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')}`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} varchar(${config.length ?? 1}) ${pgCollate(field)} ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')}`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.tinyblob: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} tinyblob ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')}`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} bytea ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')}`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} blob ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.tinytext: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} tinytext ${mysqlCharset(field)} ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')}`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} text ${pgCollate(field)} ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')}`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.blob: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} blob ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')}`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} bytea ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')}`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} blob ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.mediumblob: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} mediumblob ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')}`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} bytea ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')}`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} blob ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.longblob: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} longblob ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')}`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} bytea ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')}`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} blob ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+    case SqlType.json: {
+      field[DBType.Mysql] = () =>
+        `${field.C2()} json ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'mysql')}`;
+      field[DBType.Postgresql] = () =>
+        `${field.C2()} jsonb ${config.notNull === true ? 'NOT NULL' : ''
+        } ${defaultSql(field, 'postgresql')}`;
+      field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
+        `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''} ${defaultSql(field, 'sqlite')}`;
+      break;
+    }
+  }
+  return field;
+};
+const NUMERIC_TYPES = [SqlType.tinyint, SqlType.smallint, SqlType.mediumint, SqlType.int, SqlType.bigint, SqlType.float, SqlType.double, SqlType.decimal, SqlType.year];
+/**
+ * 由类型映射生成方言:列名 类型 [COLLATE] [DEFAULT] [NOT NULL]
+ * @param name 方言名称,决定默认值的写法
+ * @param typeOf 字段 => 数据库类型
+ * @param collate 是否支持列级排序规则
+ */
+const typeDialect = (name: string, typeOf: (field: AField) => string, collate: boolean): DialectRenderer => field => [
+  field.C2(),
+  typeOf(field),
+  collate && field.collate ? `COLLATE ${field.collate}` : '',
+  defaultSql(field, name),
+  field.notNull === true ? 'NOT NULL' : ''
+].filter(item => item !== '').join(' ');
+const lengthOf = (field: FieldOption) => field.length ?? 1;
+/** 精度与小数位,未指定时为 (10, 2),小数位不超过精度 */
+const precisionOf = (field: FieldOption) => `${field.length ?? 10}, ${field.scale ?? Math.min(2, field.length ?? 10)}`;
+registerDialect('mysql', field => field[DBType.Mysql]());
+registerDialect('postgresql', field => field[DBType.Postgresql]());
+registerDialect('sqlite', field => field[DBType.Sqlite]());
+// 人大金仓兼容 postgresql
+registerDialect('kingbase', field => field[DBType.Postgresql]());
+registerDialect('mssql', typeDialect('mssql', field => {
+  switch (field.type) {
+    case SqlType.tinyint: return 'tinyint';
+    case SqlType.smallint: return 'smallint';
+    case SqlType.mediumint: return 'int';
+    case SqlType.int: return 'int';
+    case SqlType.bigint: return 'bigint';
+    case SqlType.float: return 'real';
+    case SqlType.double: return 'float';
+    case SqlType.decimal: return `decimal(${precisionOf(field)})`;
+    case SqlType.date: return 'date';
+    case SqlType.time: return 'time';
+    case SqlType.year: return 'smallint';
+    // mssql 的 timestamp 是行版本号,时间统一使用 datetime2
+    case SqlType.datetime: return 'datetime2';
+    case SqlType.timestamp: return 'datetime2';
+    case SqlType.char: return `nchar(${lengthOf(field)})`;
+    case SqlType.varchar: return `nvarchar(${lengthOf(field)})`;
+    case SqlType.tinyblob: return 'varbinary(255)';
+    case SqlType.blob:
+    case SqlType.mediumblob:
+    case SqlType.longblob: return 'varbinary(max)';
+    case SqlType.tinytext: return 'nvarchar(255)';
+    default: return 'nvarchar(max)';
+  }
+}, true));
+registerDialect('oracle', typeDialect('oracle', field => {
+  switch (field.type) {
+    case SqlType.tinyint: return 'NUMBER(3)';
+    case SqlType.smallint: return 'NUMBER(5)';
+    case SqlType.mediumint: return 'NUMBER(7)';
+    case SqlType.int: return 'NUMBER(10)';
+    case SqlType.bigint: return 'NUMBER(19)';
+    case SqlType.float: return 'BINARY_FLOAT';
+    case SqlType.double: return 'BINARY_DOUBLE';
+    case SqlType.decimal: return `NUMBER(${precisionOf(field)})`;
+    case SqlType.date: return 'DATE';
+    // oracle 没有 time 类型,以 HH:mm:ss 字符串保存
+    case SqlType.time: return 'VARCHAR2(8)';
+    case SqlType.year: return 'NUMBER(4)';
+    case SqlType.datetime:
+    case SqlType.timestamp: return 'TIMESTAMP';
+    case SqlType.char: return `CHAR(${lengthOf(field)})`;
+    case SqlType.varchar: return `VARCHAR2(${lengthOf(field)})`;
+    case SqlType.tinytext: return 'VARCHAR2(255)';
+    case SqlType.tinyblob:
+    case SqlType.blob:
+    case SqlType.mediumblob:
+    case SqlType.longblob: return 'BLOB';
+    default: return 'CLOB';
+  }
+}, false));
+registerDialect('dm', typeDialect('dm', field => {
+  switch (field.type) {
+    case SqlType.tinyint: return 'TINYINT';
+    case SqlType.smallint: return 'SMALLINT';
+    case SqlType.mediumint: return 'INT';
+    case SqlType.int: return 'INT';
+    case SqlType.bigint: return 'BIGINT';
+    case SqlType.float: return 'FLOAT';
+    case SqlType.double: return 'DOUBLE';
+    case SqlType.decimal: return `DECIMAL(${precisionOf(field)})`;
+    case SqlType.date: return 'DATE';
+    case SqlType.time: return 'TIME';
+    case SqlType.year: return 'SMALLINT';
+    case SqlType.datetime: return 'DATETIME';
+    case SqlType.timestamp: return 'TIMESTAMP';
+    case SqlType.char: return `CHAR(${lengthOf(field)})`;
+    case SqlType.varchar: return `VARCHAR(${lengthOf(field)})`;
+    case SqlType.tinytext: return 'VARCHAR(255)';
+    case SqlType.tinyblob:
+    case SqlType.blob:
+    case SqlType.mediumblob:
+    case SqlType.longblob: return 'BLOB';
+    default: return 'TEXT';
+  }
+}, false));
+/** 一个类的字段元数据 */
+interface FieldMetadata {
+  fields: Record<string, AField>;
+  columns: string[];
+  columnsNoId: string[];
+  ids: string[];
+  logicIds: string[];
+  index: string[];
+  def: Record<string, any>;
+}
+/**
+ * 读取字段元数据的副本,包含继承自父类的部分
+ *
+ * 写回时只写到当前类上,父类与兄弟类的元数据不受影响
+ */
+const fieldMetadataOf = (object: object): FieldMetadata => ({
+  fields: { ...Reflect.getMetadata(_fields, object) },
+  columns: [...Reflect.getMetadata(_columns, object) ?? []],
+  columnsNoId: [...Reflect.getMetadata(_columnsNoId, object) ?? []],
+  ids: [...Reflect.getMetadata(_ids, object) ?? []],
+  logicIds: [...Reflect.getMetadata(_logicIds, object) ?? []],
+  index: [...Reflect.getMetadata(_index, object) ?? []],
+  def: { ...Reflect.getMetadata(_def, object) }
+});
+const defineFieldMetadata = (object: object, metadata: FieldMetadata) => {
+  Reflect.defineMetadata(_fields, metadata.fields, object);
+  Reflect.defineMetadata(_columns, metadata.columns, object);
+  Reflect.defineMetadata(_columnsNoId, metadata.columnsNoId, object);
+  Reflect.defineMetadata(_ids, metadata.ids, object);
+  Reflect.defineMetadata(_logicIds, metadata.logicIds, object);
+  Reflect.defineMetadata(_index, metadata.index, object);
+  Reflect.defineMetadata(_def, metadata.def, object);
+};
+/** 按属性名取字段,属性不是字段时抛出异常 */
+const pickFields = (clz: Function, metadata: FieldMetadata, properties: readonly string[]) => properties.map(P => {
+  const field = metadata.fields[P];
+  if (field === undefined) {
+    throw new Error(`${P} is not a field of ${clz.name}`);
+  }
+  return field;
+});
+/** 从元数据中移除属性,columns 保留位置由调用方决定 */
+const removeField = (metadata: FieldMetadata, propertyName: string) => {
+  delete metadata.fields[propertyName];
+  delete metadata.def[propertyName];
+  for (const key of ['columnsNoId', 'ids', 'logicIds', 'index'] as const) {
+    metadata[key] = metadata[key].filter(P => P !== propertyName);
+  }
+};
+/**
+ * 字段注解
+ *
+ * 子类可以重新注解继承的属性以覆盖其配置,列的顺序保持不变
+ */
+export const Field = (config: FieldOption) => {
+  config.type ??= SqlType.varchar;
+  return (object: object, propertyName: string) => {
+    const field = buildField(config, propertyName, () => namingOf(object.constructor));
+    const metadata = fieldMetadataOf(object);
+    removeField(metadata, propertyName);
+    metadata.fields[propertyName] = field;
+    if (!metadata.columns.includes(propertyName)) {
+      metadata.columns.push(propertyName);
+    }
+    if (field.id === true) {
+      metadata.ids.push(propertyName);
+    } else {
+      metadata.columnsNoId.push(propertyName);
+    }
+    if (field.logicId === true) {
+      metadata.logicIds.push(propertyName);
+    }
+    if (field.index === true) {
+      metadata.index.push(propertyName);
+    }
+    // SQL 表达式由数据库生成,不作为新增时填充的默认值
+    if (field.hasOwnProperty('def') && !isRawSql(field.def)) {
+      metadata.def[propertyName] = field.def;
+    }
+    defineFieldMetadata(object, metadata);
+    // 覆盖继承的字段时先清除其逻辑删除标记
+    clearLogicDelete(object, propertyName);
+    if (field.hasOwnProperty('logicDelete')) {
+      // 恢复时状态字段写回默认值,没有默认值会写入 NULL
+      if (field.def === undefined || isRawSql(field.def)) {
+        throw new Error(`${propertyName} logicDelete requires a def as the restored state`);
+      }
+      Reflect.defineMetadata(_deleteState, field.logicDelete, object);
+      Reflect.defineMetadata(_stateFileName, propertyName, object);
+    }
+    if (field.deletedAt === true) {
+      Reflect.defineMetadata(_deletedAt, propertyName, object);
+    }
+    if (field.deletedBy === true) {
+      Reflect.defineMetadata(_deletedBy, propertyName, object);
+    }
+  };
+};
+/** 属性是逻辑删除相关字段时,清除对应的元数据 */
+const clearLogicDelete = (object: object, propertyName: string) => {
+  if (Reflect.getMetadata(_stateFileName, object) === propertyName) {
+    Reflect.defineMetadata(_deleteState, undefined, object);
+    Reflect.defineMetadata(_stateFileName, undefined, object);
+  }
+  for (const key of [_deletedAt, _deletedBy]) {
+    if (Reflect.getMetadata(key, object) === propertyName) {
+      Reflect.defineMetadata(key, undefined, object);
+    }
+  }
+};
+/**
+ * 排除继承自父类的字段与关联,用于共享的基础实体中有不需要的列:
+ * ```typescript
+ * @ExcludeFields('updateBy', 'updateTime')
+ * export class Log extends BaseEntity { ... }
+ * ```
+ * @param properties 属性名
+ */
+export const ExcludeFields = (...properties: string[]) => (target: Function) => {
+  const object = target.prototype;
+  const metadata = fieldMetadataOf(object);
+  const relations: Record<string, RelationDefine> = { ...Reflect.getMetadata(_relations, object) };
+  for (const P of properties) {
+    removeField(metadata, P);
+    metadata.columns = metadata.columns.filter(column => column !== P);
+    delete relations[P];
+    clearLogicDelete(object, P);
+  }
+  defineFieldMetadata(object, metadata);
+  Reflect.defineMetadata(_relations, relations, object);
+};
+
+export interface TableOption {
+  /** 表名,默认由类名转换:OrderItem => order_item */
+  name?: string;
+  /** 所属 schema/database */
+  schema?: string;
+  /** 表注释 */
+  comment?: string;
+  /** 存储引擎,仅 mysql 有效 */
+  engine?: string;
+  /** 默认字符集,仅 mysql 有效,默认 utf8mb4 */
+  charset?: string;
+  /** 默认排序规则,仅 mysql 有效,默认 utf8mb4_general_ci */
+  collate?: string;
+  /** 行格式,仅 mysql 有效 */
+  rowFormat?: string;
+  /** 本实体的命名策略,默认使用全局策略 */
+  naming?: NamingStrategy;
+}
+/**
+ * 表注解:表名、schema、注释、引擎、字符集等建表选项
+ * ```typescript
+ * @Table({ name: 'sys_user', comment: '用户', engine: 'InnoDB' })
+ * export class User { ... }
+ * ```
+ */
+export const Table = (option: TableOption = {}) => (target: Function) => {
+  Reflect.defineMetadata(_table, option, target.prototype);
+};
+/** 类自身的表注解,不继承父类 */
+const tableOptionOf = (clz: Function): TableOption => Reflect.getOwnMetadata(_table, clz.prototype) ?? {};
+/** 实体的命名策略,继承的字段使用声明该字段的类的策略 */
+const namingOf = (clz: Function) => tableOptionOf(clz).naming ?? defaultNaming();
+export interface IndexColumn {
+  /** 属性名 */
+  P: string;
+  /** 排序方向 */
+  order?: 'ASC' | 'DESC';
+  /** 前缀长度,仅 mysql 有效 */
+  length?: number;
+}
+export interface IndexOption {
+  /** 索引名,默认 idx_表名_列名,唯一索引为 uk_表名_列名 */
+  name?: string;
+  /** 属性名,可带排序方向:['orgId', 'createTime DESC'] */
+  columns: (string | IndexColumn)[];
+  /** 唯一索引 */
+  unique?: boolean;
+  /** 全文索引,仅 mysql 有效,其他数据库建表时忽略 */
+  fulltext?: boolean;
+  /** 部分索引条件,如 `delete_flag = 0`,postgresql、sqlite 有效;mysql 中普通索引忽略该条件,唯一索引报错 */
+  where?: string;
+  /** 索引方法,如 btree、hash、gin,mysql、postgresql 有效 */
+  using?: string;
+}
+/** 解析完成的索引:名称确定、列名确定 */
+export interface IndexDefine {
+  name: string;
+  columns: (IndexColumn & { C: string })[];
+  unique: boolean;
+  fulltext: boolean;
+  where?: string;
+  using?: string;
+}
+/**
+ * 索引注解:命名的联合索引、唯一索引、全文索引、部分索引
+ * ```typescript
+ * @Index('idx_org_time', ['orgId', 'createTime DESC'])
+ * @Index('uk_org_code', ['orgId', 'code'], { unique: true, where: 'delete_flag = 0' })
+ * export class User { ... }
+ * ```
+ *
+ * 子类继承父类的索引,同名索引以子类为准
+ * @param name 索引名
+ * @param columns 属性名,可带排序方向
+ * @param option 索引选项
+ */
+export const Index = (name: string, columns: (string | IndexColumn)[], option: Omit<IndexOption, 'name' | 'columns'> = {}) => (target: Function) => {
+  const inherited: IndexOption[] = Reflect.getMetadata(_indexes, Object.getPrototypeOf(target.prototype)) ?? [];
+  const indexes: IndexOption[] = (Reflect.getOwnMetadata(_indexes, target.prototype) ?? [...inherited]).filter((index: IndexOption) => index.name !== name);
+  // 类注解自下而上执行,插入到父类索引之后、已声明的索引之前以保持书写顺序
+  indexes.splice(inherited.filter(index => indexes.includes(index)).length, 0, { ...option, name, columns });
+  Reflect.defineMetadata(_indexes, indexes, target.prototype);
+};
+
+//#region 关联关系
+export type RelationType = 'ManyToOne' | 'OneToMany' | 'ManyToMany';
+/** 外键的级联动作 */
+export type ReferentialAction = 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION' | 'SET DEFAULT';
+export interface RelationOption {
+  /**
+   * 关联属性
+   * + ManyToOne: 本实体中保存外键的属性,默认 属性名+Id:order => orderId
+   * + OneToMany: 对方实体中指向本实体的属性,默认 本类名+Id:Order => orderId
+   * + ManyToMany: 无效
+   */
+  column?: string;
+  /** 被引用的属性,默认为被引用实体的唯一主键 */
+  referenced?: string;
+  /** 是否生成外键约束,仅 ManyToOne 有效,默认FALSE */
+  foreignKey?: boolean;
+  /** 外键约束名,默认 fk_表名_列名 */
+  foreignKeyName?: string;
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+}
+export interface JoinTableOption {
+  /** 中间表名 */
+  name: string;
+  /** 中间表中指向本实体的列名,默认 本表名_id */
+  joinColumn?: string;
+  /** 中间表中指向对方实体的列名,默认 对方表名_id */
+  inverseColumn?: string;
+}
+/** 注解保存的关联配置 */
+export interface RelationDefine extends RelationOption {
+  /** 关联属性名 */
+  P: string;
+  type: RelationType;
+  /** 延迟获取对方实体,避免循环引用时类尚未定义 */
+  target: () => Function;
+  joinTable?: JoinTableOption;
+}
+/** 解析完成的关联:表名、列名确定 */
+export interface Relation {
+  P: string;
+  type: RelationType;
+  target: Function;
+  /** 本实体表名 */
+  table: string;
+  /** 对方实体表名 */
+  targetTable: string;
+  /** ManyToOne: 本表的外键列;OneToMany: 对方表的外键列;ManyToMany: 本表的主键列 */
+  column: { P: string; C: string };
+  /** ManyToOne: 对方表被引用的列;OneToMany: 本表被引用的列;ManyToMany: 对方表的主键列 */
+  referenced: { P: string; C: string };
+  /** ManyToMany 的中间表 */
+  joinTable?: Required<JoinTableOption>;
+  foreignKey: boolean;
+  foreignKeyName?: string;
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+}
+const relation = (type: RelationType, target: () => Function, option: RelationOption & { joinTable?: JoinTableOption }) => (object: object, propertyName: string) => {
+  // 复制一份,避免写入父类的元数据
+  const relations: Record<string, RelationDefine> = { ...Reflect.getMetadata(_relations, object) };
+  relations[propertyName] = { ...option, P: propertyName, type, target };
+  Reflect.defineMetadata(_relations, relations, object);
+};
+/**
+ * 多对一:
+ * ```
+ * class OrderItem {
+ *   @Field({ type: SqlType.bigint })
+ *   orderId?: string;
+ *   @ManyToOne(() => Order, { column: 'orderId', foreignKey: true, onDelete: 'CASCADE' })
+ *   order?: Order;
+ * }
+ * ```
+ * @param target 返回对方实体类的函数
+ */
+export const ManyToOne = (target: () => Function, option: RelationOption = {}) => relation('ManyToOne', target, option);
+/**
+ * 一对多,外键在对方实体上,不会生成约束
+ * @param target 返回对方实体类的函数
+ */
+export const OneToMany = (target: () => Function, option: Omit<RelationOption, 'foreignKey' | 'foreignKeyName' | 'onDelete' | 'onUpdate'> = {}) => relation('OneToMany', target, option);
+/**
+ * 多对多,通过中间表关联双方主键
+ * @param target 返回对方实体类的函数
+ */
+export const ManyToMany = (target: () => Function, option: Omit<RelationOption, 'column' | 'foreignKey' | 'foreignKeyName' | 'onDelete' | 'onUpdate'> & { joinTable: JoinTableOption }) =>
+  relation('ManyToMany', target, option);
+/** 属性对应的列名,未注解的属性按命名规则转换 */
+const columnOfProp = (clz: Function, P: string) => {
+  const fields: Record<string, AField> = Reflect.getMetadata(_fields, clz.prototype) ?? {};
+  return { P, C: fields[P]?.C2() ?? namingOf(clz).column(P) };
+};
+/** 实体的唯一主键,联合主键或无主键时需要显式指定 referenced */
+const singleIdOf = (clz: Function, relation: RelationDefine) => {
+  const ids: string[] = Reflect.getMetadata(_ids, clz.prototype) ?? [];
+  if (ids.length !== 1) {
+    throw new Error(`${clz.name} must have exactly one id, or set referenced on relation ${relation.P}`);
+  }
+  return ids[0]!;
+};
+/**
+ * 列出实体的关联关系,表名与列名已解析,可据此拼接 join 或处理级联
+ * @param clz 实体类
+ */
+export function getRelations(clz: Function): Relation[] {
+  const relations: Record<string, RelationDefine> = Reflect.getMetadata(_relations, clz.prototype) ?? {};
+  return Object.values(relations).map(relation => {
+    const target = relation.target();
+    const table = tableNameOf(clz);
+    const targetTable = tableNameOf(target);
+    const base = {
+      P: relation.P,
+      type: relation.type,
+      target,
+      table,
+      targetTable,
+      foreignKey: relation.foreignKey === true,
+      ...(relation.foreignKeyName ? { foreignKeyName: relation.foreignKeyName } : {}),
+      ...(relation.onDelete ? { onDelete: relation.onDelete } : {}),
+      ...(relation.onUpdate ? { onUpdate: relation.onUpdate } : {})
+    };
+    switch (relation.type) {
+      case 'ManyToOne':
+        return {
+          ...base,
+          column: columnOfProp(clz, relation.column ?? `${relation.P}Id`),
+          referenced: columnOfProp(target, relation.referenced ?? singleIdOf(target, relation))
+        };
+      case 'OneToMany':
+        return {
+          ...base,
+          column: columnOfProp(target, relation.column ?? `${lowerFirst(clz.name)}Id`),
+          referenced: columnOfProp(clz, relation.referenced ?? singleIdOf(clz, relation))
+        };
+      case 'ManyToMany':
+        return {
+          ...base,
+          column: columnOfProp(clz, singleIdOf(clz, relation)),
+          referenced: columnOfProp(target, relation.referenced ?? singleIdOf(target, relation)),
+          joinTable: {
+            name: relation.joinTable!.name,
+            joinColumn: relation.joinTable!.joinColumn ?? `${table}_id`,
+            inverseColumn: relation.joinTable!.inverseColumn ?? `${targetTable}_id`
+          }
+        };
+    }
+  });
+}
+//#endregion
+
+//#region 建表语句
+export interface CreateTableOption extends Omit<TableOption, 'name' | 'naming'> {
+  /** 表名,默认取 `@Table` 的 name,其次由类名转换 */
+  tableName?: string;
+  /** 是否带 IF NOT EXISTS,默认TRUE */
+  ifNotExists?: boolean;
+  /** 是否先 DROP TABLE IF EXISTS,默认FALSE */
+  dropIfExists?: boolean;
+  /** 是否在建表语句中生成外键约束,默认TRUE;存在循环引用时可关闭,建表后再执行 foreignKeySql */
+  foreignKeys?: boolean;
+}
+/** 压缩列定义中多余的空白,引号内的内容保持不变 */
+const compactSql = (sql: string) =>
+  sql.split(/('(?:[^']|'')*')/).map((part, i) => i % 2 === 1 ? part : part.replace(/\s+/g, ' ')).join('').trim();
+const quoteComment = (comment: string, dialect = 'postgresql') => sqlString(comment, dialect);
+/** 建表与变更语句中的列定义:列定义方法返回的列名不带引号,在这里按方言加引号 */
+const columnSql = (field: AField, dbType: DBType.Mysql | DBType.Postgresql | DBType.Sqlite | DBType.SqliteRemote) => {
+  const C = field.C2();
+  return `${quoteName(C, dbType)}${compactSql(field[dbType]()).substring(C.length)}`;
+};
+const indexNameOf = (tableName: string, C: string, unique?: boolean) => `${unique === true ? 'uk' : 'idx'}_${tableName}_${C}`;
+/**
+ * 合并字段上的 index/unique 与 `@Index` 声明的索引,确定索引名与列名
+ * @param tableName 不带 schema 的表名
+ * @param fields 全部字段
+ * @param declared `@Index` 声明的索引
+ * @param naming 非字段属性转为列名的命名策略
+ */
+const resolveIndexes = (tableName: string, fields: AField[], declared: IndexOption[], naming: NamingStrategy = defaultNaming()): IndexDefine[] => {
+  const indexes: IndexDefine[] = [];
+  for (const field of fields) {
+    if (field.index === true || field.unique === true) {
+      const C = field.C2();
+      indexes.push({ name: indexNameOf(tableName, C, field.unique), columns: [{ P: field.P!, C }], unique: field.unique === true, fulltext: false });
+    }
+  }
+  for (const index of declared) {
+    const columns = index.columns.map(column => {
+      const item: IndexColumn = typeof column === 'string'
+        ? (([P, order]) => order ? { P: P!, order: order.toUpperCase() as 'ASC' | 'DESC' } : { P: P! })(column.trim().split(/\s+/))
+        : column;
+      const field = fields.find(field => field.P === item.P);
+      return { ...item, C: field ? field.C2() : naming.column(item.P) };
+    });
+    indexes.push({
+      name: index.name ?? indexNameOf(tableName, columns.map(column => column.C).join('_'), index.unique),
+      columns,
+      unique: index.unique === true,
+      fulltext: index.fulltext === true,
+      ...(index.where ? { where: index.where } : {}),
+      ...(index.using ? { using: index.using } : {})
+    });
+  }
+  return indexes;
+};
+const indexColumns = (index: IndexDefine, dbType: DBType) => index.columns.map(column =>
+  `${quoteName(column.C, dbType)}${column.length && dbType === DBType.Mysql ? `(${column.length})` : ''}${column.order ? ` ${column.order}` : ''}`
+).join(', ');
+/** mysql 索引的类型与方法 */
+const mysqlIndexParts = (index: IndexDefine) => {
+  if (index.unique && index.where) {
+    throw new Error(`mysql not support partial unique index ${index.name}`);
+  }
+  return {
+    kind: `${index.fulltext ? 'FULLTEXT ' : index.unique ? 'UNIQUE ' : ''}INDEX`,
+    using: index.using && !index.fulltext ? ` USING ${index.using.toUpperCase()}` : ''
+  };
+};
+/** mysql 建表语句中的索引定义 */
+const mysqlIndex = (index: IndexDefine) => {
+  const { kind, using } = mysqlIndexParts(index);
+  return `${kind} ${quoteName(index.name, DBType.Mysql)} (${indexColumns(index, DBType.Mysql)})${using}`;
+};
+/**
+ * 单条 CREATE INDEX 语句
+ * @param tableName 带引号、可带 schema 的表名
+ */
+const indexSql = (tableName: string, index: IndexDefine, dbType: DBType, ifNotExists: string) => {
+  const name = quoteName(index.name, dbType);
+  switch (dbType) {
+    case DBType.Mysql: {
+      // mysql 不支持 IF NOT EXISTS
+      const { kind, using } = mysqlIndexParts(index);
+      return `CREATE ${kind} ${name} ON ${tableName} (${indexColumns(index, dbType)})${using}`;
+    }
+    case DBType.Postgresql:
+      if (index.fulltext) {
+        throw new Error(`postgresql not support fulltext index ${index.name}`);
+      }
+      return `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX${ifNotExists} ${name} ON ${tableName}${index.using ? ` USING ${index.using}` : ''} (${indexColumns(index, dbType)})${index.where ? ` WHERE ${index.where}` : ''}`;
+    case DBType.Sqlite:
+    case DBType.SqliteRemote:
+      if (index.fulltext) {
+        throw new Error(`sqlite not support fulltext index ${index.name}`);
+      }
+      return `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX${ifNotExists} ${name} ON ${tableName} (${indexColumns(index, dbType)})${index.where ? ` WHERE ${index.where}` : ''}`;
+    default:
+      throw new Error(`createIndexSql not support ${DBType[dbType]}`);
+  }
+};
+/**
+ * 外键约束定义:CONSTRAINT ... FOREIGN KEY ... REFERENCES ...
+ * @param tableName 不带 schema 的本表名
+ */
+const foreignKeyDefine = (tableName: string, relation: Relation, dbType: DBType) => {
+  if (dbType === DBType.Mysql && (relation.onDelete === 'SET DEFAULT' || relation.onUpdate === 'SET DEFAULT')) {
+    throw new Error(`mysql not support SET DEFAULT on foreign key of ${relation.P}`);
+  }
+  // sqlite 的外键不能带 schema
+  const schema = dbType === DBType.Sqlite || dbType === DBType.SqliteRemote ? undefined : tableOptionOf(relation.target).schema;
+  return [
+    `CONSTRAINT ${quoteName(relation.foreignKeyName ?? `fk_${tableName}_${relation.column.C}`, dbType)}`,
+    `FOREIGN KEY (${quoteName(relation.column.C, dbType)})`,
+    `REFERENCES ${quoteTable(relation.targetTable, dbType, schema)} (${quoteName(relation.referenced.C, dbType)})`,
+    relation.onDelete ? `ON DELETE ${relation.onDelete}` : '',
+    relation.onUpdate ? `ON UPDATE ${relation.onUpdate}` : ''
+  ].filter(item => item !== '').join(' ');
+};
+/** 需要生成约束的外键,外键属性必须是 `@Field` 注解的字段 */
+const foreignKeysOf = (clz: Function, tableName: string, dbType: DBType) => {
+  const fields: Record<string, AField> = Reflect.getMetadata(_fields, clz.prototype) ?? {};
+  return getRelations(clz).filter(relation => relation.type === 'ManyToOne' && relation.foreignKey).map(relation => {
+    if (!fields[relation.column.P]) {
+      throw new Error(`${clz.name}.${relation.column.P} is not a field`);
+    }
+    return foreignKeyDefine(tableName, relation, dbType);
+  });
+};
+const mysqlColumn = (field: AField) =>
+  `${columnSql(field, DBType.Mysql)}${field.comment ? ` COMMENT ${quoteComment(field.comment, 'mysql')}` : ''}`;
+/** 字段配置对应的列名 */
+const columnOf = (field: FieldOption) => field.column ?? defaultNaming().column(field.P!);
+/**
+ * 实体的表名:`@Table` 的 name,未指定时由命名策略转换类名
+ * @param clz 实体类
+ */
+export const tableNameOf = (clz: Function) => tableOptionOf(clz).name ?? namingOf(clz).table(clz.name);
+/**
+ * 建表核心:按列顺序生成建表及附属语句(不带结尾的 `;`)
+ */
+function tableSqls(name: string, fields: AField[], ids: AField[], indexes: IndexDefine[], foreignKeys: string[], dbType: DBType, option: CreateTableOption): string[] {
+  const ifNotExists = option.ifNotExists === false ? '' : ' IF NOT EXISTS';
+  const tableName = quoteTable(name, dbType, option.schema);
+  const primaryKey = ids.length > 0 ? `PRIMARY KEY (${ids.map(field => quoteName(field.C2(), dbType)).join(', ')})` : '';
+  const sqls: string[] = [];
+  if (option.dropIfExists === true) {
+    sqls.push(`DROP TABLE IF EXISTS ${tableName}`);
+  }
+  switch (dbType) {
+    case DBType.Mysql: {
+      const defines = fields.map(mysqlColumn);
+      if (primaryKey) {
+        defines.push(primaryKey);
+      }
+      defines.push(...indexes.map(mysqlIndex), ...foreignKeys);
+      const tableOptions = [
+        option.engine ? `ENGINE=${option.engine}` : '',
+        `DEFAULT CHARSET=${option.charset ?? 'utf8mb4'}`,
+        // 只指定字符集时使用该字符集的默认排序规则
+        option.collate ? `COLLATE=${option.collate}` : option.charset ? '' : 'COLLATE=utf8mb4_general_ci',
+        option.rowFormat ? `ROW_FORMAT=${option.rowFormat}` : '',
+        option.comment ? `COMMENT=${quoteComment(option.comment, 'mysql')}` : ''
+      ].filter(item => item !== '');
+      sqls.push(`CREATE TABLE${ifNotExists} ${tableName} (\n  ${defines.join(',\n  ')}\n) ${tableOptions.join(' ')}`);
+      break;
+    }
+    case DBType.Postgresql: {
+      const defines = fields.map(field => columnSql(field, DBType.Postgresql));
+      if (primaryKey) {
+        defines.push(primaryKey);
+      }
+      defines.push(...foreignKeys);
+      sqls.push(`CREATE TABLE${ifNotExists} ${tableName} (\n  ${defines.join(',\n  ')}\n)`);
+      sqls.push(...indexes.filter(index => !index.fulltext).map(index => indexSql(tableName, index, dbType, ifNotExists)));
+      if (option.comment) {
+        sqls.push(`COMMENT ON TABLE ${tableName} IS ${quoteComment(option.comment)}`);
+      }
+      for (const field of fields) {
+        if (field.comment) {
+          sqls.push(`COMMENT ON COLUMN ${tableName}.${quoteName(field.C2(), dbType)} IS ${quoteComment(field.comment)}`);
+        }
+      }
+      break;
+    }
+    case DBType.Sqlite:
+    case DBType.SqliteRemote: {
+      // sqlite 不支持注释
+      const defines = fields.map(field => columnSql(field, dbType));
+      if (primaryKey) {
+        defines.push(primaryKey);
+      }
+      defines.push(...foreignKeys);
+      sqls.push(`CREATE TABLE${ifNotExists} ${tableName} (\n  ${defines.join(',\n  ')}\n)`);
+      sqls.push(...indexes.filter(index => !index.fulltext).map(index => indexSql(tableName, index, dbType, ifNotExists)));
+      break;
+    }
+    default:
+      throw new Error(`createTableSql not support ${DBType[dbType]}`);
+  }
+  return sqls;
+}
+/**
+ * 实体的全部索引:字段上的 index/unique 以及 `@Index` 声明的索引
+ * @param clz 实体类
+ * @param tableName 表名,用于生成默认索引名,默认取 tableNameOf
+ */
+export function getIndexes(clz: Function, tableName?: string): IndexDefine[] {
+  const fields: Record<string, AField> = Reflect.getMetadata(_fields, clz.prototype) ?? {};
+  const columns: string[] = Reflect.getMetadata(_columns, clz.prototype) ?? [];
+  return resolveIndexes(tableName ?? tableNameOf(clz), columns.map(P => fields[P]!), Reflect.getMetadata(_indexes, clz.prototype) ?? [], namingOf(clz));
+}
+/**
+ * 生成完整的建表语句:列定义、联合主键、索引、外键、表与列注释
+ *
+ * 全文索引仅在 mysql 中生成
+ * @param clz 使用 `@Field` 注解的实体类
+ * @param dbType 数据库类型,支持 Mysql、Postgresql、Sqlite、SqliteRemote
+ * @param option 建表选项
+ * @returns 以 `;` 结尾、换行分隔的多条语句
+ */
+export function createTableSql(clz: Function, dbType: DBType, option: CreateTableOption = {}): string {
+  const fields: Record<string, AField> | undefined = Reflect.getMetadata(_fields, clz.prototype);
+  if (!fields) {
+    throw new Error(`${clz.name} has no field`);
+  }
+  const columns: string[] = Reflect.getMetadata(_columns, clz.prototype) ?? [];
+  const ids: string[] = Reflect.getMetadata(_ids, clz.prototype) ?? [];
+  const tableName = option.tableName ?? tableNameOf(clz);
+  return tableSqls(
+    tableName,
+    columns.map(P => fields[P]!),
+    ids.map(P => fields[P]!),
+    getIndexes(clz, tableName),
+    option.foreignKeys === false ? [] : foreignKeysOf(clz, tableName, dbType),
+    dbType,
+    { ...tableOptionOf(clz), ...option }
+  ).map(sql => `${sql};`).join('\n');
+}
+/**
+ * 生成实体索引的 CREATE INDEX 语句
+ * @param clz 实体类
+ * @param dbType 数据库类型,支持 Mysql、Postgresql、Sqlite、SqliteRemote
+ * @param option.names 只生成指定名称的索引
+ * @param option.ifNotExists 是否带 IF NOT EXISTS(mysql 无效),默认TRUE
+ * @returns 以 `;` 结尾、换行分隔的多条语句
+ */
+export function createIndexSql(clz: Function, dbType: DBType, option: { tableName?: string; schema?: string; names?: string[]; ifNotExists?: boolean } = {}): string {
+  const name = option.tableName ?? tableNameOf(clz);
+  const schema = option.schema ?? tableOptionOf(clz).schema;
+  const tableName = quoteTable(name, dbType, schema);
+  return getIndexes(clz, name)
+    .filter(index => !option.names || option.names.includes(index.name))
+    .map(index => `${indexSql(tableName, index, dbType, option.ifNotExists === false ? '' : ' IF NOT EXISTS')};`)
+    .join('\n');
+}
+/**
+ * 生成添加外键约束的 ALTER TABLE 语句,用于建表时关闭了 foreignKeys 的情况
+ * @param clz 实体类
+ * @param dbType 数据库类型,支持 Mysql、Postgresql;sqlite 只能在建表时定义外键
+ * @returns 以 `;` 结尾、换行分隔的多条语句
+ */
+export function foreignKeySql(clz: Function, dbType: DBType, option: { tableName?: string; schema?: string } = {}): string {
+  if (dbType !== DBType.Mysql && dbType !== DBType.Postgresql) {
+    throw new Error(`foreignKeySql not support ${DBType[dbType]}`);
+  }
+  const name = option.tableName ?? tableNameOf(clz);
+  const schema = option.schema ?? tableOptionOf(clz).schema;
+  const tableName = quoteTable(name, dbType, schema);
+  return foreignKeysOf(clz, name, dbType).map(define => `ALTER TABLE ${tableName} ADD ${define};`).join('\n');
+}
+//#endregion
+
+//#region 实体元数据
+/** 实体的全部元数据,由 getEntityMetadata 生成,不可修改 */
+export interface EntityMetadata {
+  /** 实体类 */
+  target: Function;
+  tableName: string;
+  /** `@Table` 的选项 */
+  table: Readonly<TableOption>;
+  /** 属性名 => 字段 */
+  fields: Readonly<Record<string, AField>>;
+  /** 全部属性名,按声明顺序 */
+  columns: readonly string[];
+  /** 全部列名,与 columns 一一对应 */
+  columnNames: readonly string[];
+  columnsNoId: readonly string[];
+  ids: readonly string[];
+  logicIds: readonly string[];
+  /** 属性名 => 默认值 */
+  def: Readonly<Record<string, any>>;
+  /** 合并后的索引 */
+  indexes: readonly IndexDefine[];
+  /** 逻辑删除字段及删除后的状态值 */
+  logicDelete?: Readonly<{ P: string; C: string; state: string | number }>;
+  /** 逻辑删除时间字段 */
+  deletedAt?: Readonly<{ P: string; C: string }>;
+  /** 逻辑删除人字段 */
+  deletedBy?: Readonly<{ P: string; C: string }>;
+  /** 按属性名查找字段 */
+  byProperty: (P: string) => AField | undefined;
+  /** 按列名查找字段 */
+  byColumn: (C: string) => AField | undefined;
+}
+/**
+ * 获取实体的元数据,代替直接读取 `_fields`、`_columns`、`_ids` 等元数据
+ * ```typescript
+ * const meta = getEntityMetadata(User);
+ * meta.ids; // ['id']
+ * meta.byColumn('user_name')?.P; // 'userName'
+ * ```
+ * @param clzOrInstance 实体类或实例
+ */
+export function getEntityMetadata(clzOrInstance: Function | object): EntityMetadata {
+  const target = typeof clzOrInstance === 'function' ? clzOrInstance : clzOrInstance.constructor;
+  const metadata = fieldMetadataOf(target.prototype);
+  if (metadata.columns.length === 0) {
+    throw new Error(`${target.name} has no field`);
+  }
+  const columnNames = metadata.columns.map(P => metadata.fields[P]!.C2());
+  // 返回字段的冻结副本,修改不会影响注解保存的字段
+  const fields = Object.freeze(Object.fromEntries(Object.entries(metadata.fields).map(([P, field]) => [P, Object.freeze({ ...field })])));
+  const stateFileName: string | undefined = Reflect.getMetadata(_stateFileName, target.prototype);
+  const deletedAt: string | undefined = Reflect.getMetadata(_deletedAt, target.prototype);
+  const deletedBy: string | undefined = Reflect.getMetadata(_deletedBy, target.prototype);
+  return Object.freeze({
+    target,
+    tableName: tableNameOf(target),
+    table: Object.freeze({ ...tableOptionOf(target) }),
+    fields,
+    columns: Object.freeze(metadata.columns),
+    columnNames: Object.freeze(columnNames),
+    columnsNoId: Object.freeze(metadata.columnsNoId),
+    ids: Object.freeze(metadata.ids),
+    logicIds: Object.freeze(metadata.logicIds),
+    def: Object.freeze(metadata.def),
+    indexes: Object.freeze(getIndexes(target)),
+    ...(stateFileName !== undefined
+      ? { logicDelete: Object.freeze({ P: stateFileName, C: metadata.fields[stateFileName]!.C2(), state: Reflect.getMetadata(_deleteState, target.prototype) }) }
+      : {}),
+    ...(deletedAt !== undefined ? { deletedAt: Object.freeze({ P: deletedAt, C: metadata.fields[deletedAt]!.C2() }) } : {}),
+    ...(deletedBy !== undefined ? { deletedBy: Object.freeze({ P: deletedBy, C: metadata.fields[deletedBy]!.C2() }) } : {}),
+    byProperty: (P: string) => fields[P],
+    byColumn: (C: string) => {
+      const i = columnNames.indexOf(C);
+      return i === -1 ? undefined : fields[metadata.columns[i]!];
+    }
+  });
+}
+//#endregion
+
+//#region 行映射
+export interface RowMapper<T = any> {
+  /** 数据库行 => 实体:列名或属性名均可识别,未知列丢弃,缺失的字段填充默认值 */
+  toEntity: (row: Record<string, any>) => T;
+  /**
+   * 实体 => 数据库行:属性名转为列名,undefined 的属性丢弃
+   * @param fillDef 是否为 undefined 的属性填充默认值,默认FALSE,新增数据时使用
+   */
+  toRow: (entity: Partial<T>, fillDef?: boolean) => Record<string, any>;
+}
+const rowMappers = new WeakMap<Function, Map<DBType, RowMapper>>();
+/**
+ * 获取实体的行映射,每个类与数据库类型只编译一次,之后不再读取元数据
+ * @param clz 实体类
+ * @param dbType 数据库类型,决定值转换方式
+ */
+export function rowMapper<T>(clz: new (...args: any[]) => T, dbType: DBType): RowMapper<T> {
+  let mappers = rowMappers.get(clz);
+  if (!mappers) {
+    mappers = new Map();
+    rowMappers.set(clz, mappers);
+  }
+  let mapper = mappers.get(dbType);
+  if (!mapper) {
+    mapper = compileRowMapper(clz, dbType);
+    mappers.set(dbType, mapper);
+  }
+  return mapper;
+}
+function compileRowMapper<T>(clz: new (...args: any[]) => T, dbType: DBType): RowMapper<T> {
+  const metadata = fieldMetadataOf(clz.prototype);
+  if (metadata.columns.length === 0) {
+    throw new Error(`${clz.name} has no field`);
+  }
+  const items = metadata.columns.map(P => {
+    const field = metadata.fields[P]!;
+    return { P, C: field.C2(), Data2SQL: field.Data2SQL, SQL2Data: field.SQL2Data };
+  });
+  // 列名与属性名都指向同一字段,兼容 C3 别名查询的结果
+  const byKey = new Map<string, typeof items[number]>();
+  for (const item of items) {
+    byKey.set(item.P, item);
+    byKey.set(item.C, item);
+  }
+  const defs = Object.entries(metadata.def);
+  return {
+    toEntity: row => {
+      const entity = new clz();
+      for (const key of Object.keys(row)) {
+        const item = byKey.get(key);
+        if (item) {
+          entity[item.P] = item.SQL2Data(row[key], dbType);
+        }
+      }
+      // 对象、数组、日期等默认值复制后赋值,避免实体之间共享同一个对象
+      for (const [P, def] of defs) {
+        if (entity[P] === undefined) {
+          entity[P] = typeof def === 'object' && def !== null ? structuredClone(def) : def;
+        }
+      }
+      return entity;
+    },
+    toRow: (entity, fillDef = false) => {
+      const row: Record<string, any> = {};
+      for (const item of items) {
+        let value = entity[item.P];
+        if (value === undefined && fillDef && metadata.def.hasOwnProperty(item.P)) {
+          value = metadata.def[item.P];
+        }
+        if (value !== undefined) {
+          row[item.C] = item.Data2SQL(value, dbType);
+        }
+      }
+      return row;
+    }
+  };
+}
+/**
+ * 数据库行转为实体,传入数组时逐行转换
+ * @param clz 实体类
+ * @param row 单行或多行
+ * @param dbType 数据库类型
+ */
+export function toEntity<T>(clz: new (...args: any[]) => T, row: Record<string, any>, dbType: DBType): T;
+export function toEntity<T>(clz: new (...args: any[]) => T, rows: Record<string, any>[], dbType: DBType): T[];
+export function toEntity<T>(clz: new (...args: any[]) => T, rows: Record<string, any> | Record<string, any>[], dbType: DBType): T | T[] {
+  const mapper = rowMapper(clz, dbType);
+  return rows instanceof Array ? rows.map(row => mapper.toEntity(row)) : mapper.toEntity(rows);
+}
+/**
+ * 实体转为数据库行,传入数组时逐个转换
+ * @param entity 实体,默认以其构造函数作为实体类
+ * @param dbType 数据库类型
+ * @param option.clz 实体类,实体为普通对象时必须指定
+ * @param option.fillDef 是否为 undefined 的属性填充默认值,默认FALSE
+ */
+export function toRow(entity: object, dbType: DBType, option?: { clz?: Function; fillDef?: boolean }): Record<string, any>;
+export function toRow(entities: object[], dbType: DBType, option?: { clz?: Function; fillDef?: boolean }): Record<string, any>[];
+export function toRow(entities: object | object[], dbType: DBType, option: { clz?: Function; fillDef?: boolean } = {}): Record<string, any> | Record<string, any>[] {
+  const list = entities instanceof Array ? entities : [entities];
+  const clz = option.clz ?? list[0]?.constructor;
+  if (list.length === 0 || !clz) {
+    return entities instanceof Array ? [] : {};
+  }
+  const mapper = rowMapper(clz as new () => any, dbType);
+  const rows = list.map(entity => mapper.toRow(entity, option.fillDef));
+  return entities instanceof Array ? rows : rows[0]!;
+}
+//#endregion
+
+//#region 语句构建
+/** 参数化语句,不会执行 */
+export interface SqlStatement {
+  sql: string;
+  params: any[];
+}
+export interface StatementOption {
+  /** 表名,默认取实体的表名 */
+  tableName?: string;
+}
+/** 逻辑删除的过滤方式,默认只处理未删除的数据 */
+export interface DeletedOption {
+  /** 包含已删除的数据 */
+  withDeleted?: boolean;
+  /** 只处理已删除的数据 */
+  onlyDeleted?: boolean;
+}
+/** 语句构建的上下文:带引号的表名与列名、字段与按数据库占位符收集参数 */
+const statementContext = (clz: Function, dbType: DBType, option: StatementOption) => {
+  if (dbType !== DBType.Mysql && dbType !== DBType.Postgresql && dbType !== DBType.Sqlite && dbType !== DBType.SqliteRemote) {
+    throw new Error(`statement not support ${DBType[dbType]}`);
+  }
+  const metadata = fieldMetadataOf(clz.prototype);
+  if (metadata.columns.length === 0) {
+    throw new Error(`${clz.name} has no field`);
+  }
+  const name = option.tableName ?? tableNameOf(clz);
+  const schema = tableOptionOf(clz).schema;
+  const params: any[] = [];
+  /** 经过 Data2SQL 转换后加入参数,返回占位符 */
+  const param = (P: string, value: any) => {
+    params.push(metadata.fields[P]!.Data2SQL(value, dbType));
+    return dbType === DBType.Postgresql ? `$${params.length}` : '?';
+  };
+  const C = (P: string) => quoteName(metadata.fields[P]!.C2(), dbType);
+  // 逻辑删除:优先使用状态字段,其次使用删除时间字段判断是否已删除
+  const state: string | undefined = Reflect.getMetadata(_stateFileName, clz.prototype);
+  const deleteState: string | number = Reflect.getMetadata(_deleteState, clz.prototype);
+  const deletedAt: string | undefined = Reflect.getMetadata(_deletedAt, clz.prototype);
+  const deletedBy: string | undefined = Reflect.getMetadata(_deletedBy, clz.prototype);
+  const notDeleted = () => state !== undefined
+    ? metadata.fields[state]!.notNull === true ? `${C(state)} <> ${param(state, deleteState)}` : `(${C(state)} IS NULL OR ${C(state)} <> ${param(state, deleteState)})`
+    : `${C(deletedAt!)} IS NULL`;
+  const onlyDeleted = () => state !== undefined ? `${C(state)} = ${param(state, deleteState)}` : `${C(deletedAt!)} IS NOT NULL`;
+  return {
+    metadata,
+    tableName: quoteTable(name, dbType, schema),
+    params,
+    param,
+    C,
+    /** 按属性生成 WHERE 条件,null 生成 IS NULL */
+    where: (data: Record<string, any>, properties: string[]) => properties.map(P =>
+      data[P] === null ? `${C(P)} IS NULL` : `${C(P)} = ${param(P, data[P])}`
+    ).join(' AND '),
+    logicDelete: state !== undefined || deletedAt !== undefined,
+    /** 逻辑删除的过滤条件,没有逻辑删除字段或 withDeleted 时为空 */
+    deleted: (option: DeletedOption) =>
+      (state === undefined && deletedAt === undefined) || option.withDeleted === true ? '' : option.onlyDeleted === true ? onlyDeleted() : notDeleted(),
+    /** 逻辑删除时的赋值 */
+    deleteSets: (by: any) => [
+      ...(state !== undefined ? [`${C(state)} = ${param(state, deleteState)}`] : []),
+      ...(deletedAt !== undefined ? [`${C(deletedAt)} = ${param(deletedAt, new Date())}`] : []),
+      ...(deletedBy !== undefined && by !== undefined ? [`${C(deletedBy)} = ${param(deletedBy, by)}`] : [])
+    ],
+    /** 恢复时的赋值:状态字段恢复为默认值,删除时间、删除人置空 */
+    restoreSets: () => [
+      ...(state !== undefined ? [`${C(state)} = ${param(state, metadata.def[state])}`] : []),
+      ...(deletedAt !== undefined ? [`${C(deletedAt)} = NULL`] : []),
+      ...(deletedBy !== undefined ? [`${C(deletedBy)} = NULL`] : [])
+    ]
+  };
+};
+/** 用 AND 连接非空的条件 */
+const whereOf = (...conditions: string[]) => {
+  const list = conditions.filter(item => item !== '');
+  return list.length > 0 ? ` WHERE ${list.join(' AND ')}` : '';
+};
+/** 数据中有值(非 undefined)的字段属性,按声明顺序 */
+const presentColumns = (columns: string[], list: Record<string, any>[]) =>
+  columns.filter(P => list.some(data => data[P] !== undefined));
+const insertParts = (clz: Function, list: Record<string, any>[], dbType: DBType, option: StatementOption & { fillDef?: boolean }) => {
+  if (list.length === 0) {
+    throw new Error('insert data is empty');
+  }
+  const context = statementContext(clz, dbType, option);
+  const { metadata } = context;
+  const rows = option.fillDef === false ? list : list.map(data => ({ ...metadata.def, ...Object.fromEntries(Object.entries(data).filter(([, v]) => v !== undefined)) }));
+  const columns = presentColumns(metadata.columns, rows);
+  if (columns.length === 0) {
+    throw new Error('insert data has no field');
+  }
+  const values = rows.map(data => `(${columns.map(P => context.param(P, data[P] ?? null)).join(', ')})`);
+  return { context, columns, sql: `INSERT INTO ${context.tableName} (${columns.map(context.C).join(', ')}) VALUES ${values.join(', ')}` };
+};
+/**
+ * 新增语句,传入数组时生成批量新增
+ *
+ * 列取所有数据中有值的字段,某条数据缺少的字段以 null 填充
+ * @param option.fillDef 是否为 undefined 的字段填充默认值,默认TRUE
+ */
+export function insertSql<T extends object>(clz: new (...args: any[]) => T, data: Partial<T> | Partial<T>[], dbType: DBType, option: StatementOption & { fillDef?: boolean } = {}): SqlStatement {
+  const { context, sql } = insertParts(clz, data instanceof Array ? data : [data], dbType, option);
+  return { sql, params: context.params };
+}
+/**
+ * 按主键修改,只修改有值的非主键字段;有逻辑删除字段时默认只修改未删除的数据
+ * @param option.by 定位数据的字段,ids 为主键、logicIds 为逻辑主键,默认 ids
+ */
+export function updateSql<T extends object>(clz: new (...args: any[]) => T, data: Partial<T>, dbType: DBType, option: StatementOption & DeletedOption & { by?: 'ids' | 'logicIds' } = {}): SqlStatement {
+  const context = statementContext(clz, dbType, option);
+  const { metadata } = context;
+  const keys = metadata[option.by ?? 'ids'];
+  if (keys.length === 0) {
+    throw new Error(`${clz.name} has no ${option.by ?? 'ids'}`);
+  }
+  const missing = keys.find(P => data[P] === undefined);
+  if (missing) {
+    throw new Error(`update ${clz.name} without ${missing}`);
+  }
+  const sets = presentColumns(metadata.columns.filter(P => !keys.includes(P) && !metadata.ids.includes(P)), [data])
+    .map(P => `${context.C(P)} = ${context.param(P, data[P])}`);
+  if (sets.length === 0) {
+    throw new Error('update data has no field');
+  }
+  const sql = `UPDATE ${context.tableName} SET ${sets.join(', ')}${whereOf(context.where(data, keys), context.deleted(option))}`;
+  return { sql, params: context.params };
+}
+/**
+ * 新增或修改:mysql 使用 ON DUPLICATE KEY UPDATE,postgresql、sqlite 使用 ON CONFLICT
+ * @param option.conflict 冲突判断的字段,默认为主键;mysql 由表上的唯一索引决定,忽略该选项
+ */
+export function upsertSql<T extends object>(clz: new (...args: any[]) => T, data: Partial<T> | Partial<T>[], dbType: DBType, option: StatementOption & { fillDef?: boolean; conflict?: string[] } = {}): SqlStatement {
+  const list = data instanceof Array ? data : [data];
+  const { context, columns, sql } = insertParts(clz, list, dbType, option);
+  const { metadata } = context;
+  const conflict = option.conflict ?? metadata.ids;
+  // 只修改传入的字段,填充的默认值不应覆盖已有数据
+  const updates = presentColumns(columns, list).filter(P => !conflict.includes(P)).map(context.C);
+  if (dbType === DBType.Mysql) {
+    // 没有可修改的列时用无变化的赋值代替,保持语句合法
+    const first = context.C(conflict[0] ?? columns[0]!);
+    const sets = updates.length > 0 ? updates.map(C => `${C} = VALUES(${C})`) : [`${first} = ${first}`];
+    return { sql: `${sql} ON DUPLICATE KEY UPDATE ${sets.join(', ')}`, params: context.params };
+  }
+  if (conflict.length === 0) {
+    throw new Error(`${clz.name} has no ids, set conflict`);
+  }
+  const target = conflict.map(context.C).join(', ');
+  const action = updates.length > 0 ? `DO UPDATE SET ${updates.map(C => `${C} = EXCLUDED.${C}`).join(', ')}` : 'DO NOTHING';
+  return { sql: `${sql} ON CONFLICT (${target}) ${action}`, params: context.params };
+}
+/**
+ * 删除语句,条件为 where 中有值的字段;没有条件时报错,避免误删全表
+ *
+ * 有逻辑删除字段时生成 UPDATE:状态字段写入删除状态、删除时间写入当前时间、删除人写入 option.deletedBy
+ * @param option.physical 是否物理删除,默认FALSE
+ * @param option.deletedBy 删除人
+ */
+export function deleteSql<T extends object>(clz: new (...args: any[]) => T, where: Partial<T>, dbType: DBType, option: StatementOption & { physical?: boolean; deletedBy?: any } = {}): SqlStatement {
+  const context = statementContext(clz, dbType, option);
+  const keys = presentColumns(context.metadata.columns, [where]);
+  if (keys.length === 0) {
+    throw new Error(`delete ${clz.name} without condition`);
+  }
+  if (context.logicDelete && option.physical !== true) {
+    const sets = context.deleteSets(option.deletedBy);
+    return { sql: `UPDATE ${context.tableName} SET ${sets.join(', ')}${whereOf(context.where(where, keys), context.deleted({}))}`, params: context.params };
+  }
+  return { sql: `DELETE FROM ${context.tableName} WHERE ${context.where(where, keys)}`, params: context.params };
+}
+/**
+ * 恢复逻辑删除的数据,条件为 where 中有值的字段
+ */
+export function restoreSql<T extends object>(clz: new (...args: any[]) => T, where: Partial<T>, dbType: DBType, option: StatementOption = {}): SqlStatement {
+  const context = statementContext(clz, dbType, option);
+  if (!context.logicDelete) {
+    throw new Error(`${clz.name} has no logic delete field`);
+  }
+  const keys = presentColumns(context.metadata.columns, [where]);
+  if (keys.length === 0) {
+    throw new Error(`restore ${clz.name} without condition`);
+  }
+  const sets = context.restoreSets();
+  return { sql: `UPDATE ${context.tableName} SET ${sets.join(', ')}${whereOf(context.where(where, keys), context.deleted({ onlyDeleted: true }))}`, params: context.params };
+}
+/**
+ * 查询语句,列使用带引号的属性名作为别名,条件为 where 中有值的字段;有逻辑删除字段时默认只查询未删除的数据
+ * @param option.columns 查询的属性,默认全部
+ */
+export function selectSql<T extends object>(clz: new (...args: any[]) => T, where: Partial<T>, dbType: DBType, option: StatementOption & DeletedOption & { columns?: (keyof T & string)[] } = {}): SqlStatement {
+  const context = statementContext(clz, dbType, option);
+  const { metadata } = context;
+  const columns = option.columns ? pickFields(clz, metadata, option.columns).map(field => field.P!) : metadata.columns;
+  const keys = presentColumns(metadata.columns, [where]);
+  return {
+    sql: `SELECT ${columns.map(P => `${context.C(P)} ${quoteName(P, dbType)}`).join(', ')} FROM ${context.tableName}${whereOf(context.where(where, keys), context.deleted(option))}`,
+    params: context.params
+  };
+}
+//#endregion
+
+//#region 表结构对比
+/** 一张表的结构快照,字段顺序即列顺序,可序列化为JSON保存 */
+export interface TableSnapshot {
+  tableName: string;
+  /** 表注释 */
+  comment?: string;
+  fields: FieldOption[];
+  /** `@Index` 声明的索引,字段上的 index/unique 不在此列 */
+  indexes?: IndexOption[];
+}
+export type FieldChange = 'type' | 'length' | 'scale' | 'notNull' | 'def' | 'index' | 'unique' | 'id';
+export interface FieldDiff {
+  from: FieldOption;
+  to: FieldOption;
+  changes: FieldChange[];
+}
+export interface SchemaDiff {
+  from: TableSnapshot;
+  to: TableSnapshot;
+  added: FieldOption[];
+  dropped: FieldOption[];
+  /** 改名的列,可能同时有其他变化 */
+  renamed: FieldDiff[];
+  /** 列名不变、属性有变化的列 */
+  changed: FieldDiff[];
+  /** 主键组成是否变化 */
+  idChanged: boolean;
+  /** 需要删除的索引,定义有变化的索引会先删除再新建 */
+  droppedIndexes: IndexDefine[];
+  /** 需要新建的索引 */
+  addedIndexes: IndexDefine[];
+}
+/**
+ * 由实体类生成结构快照
+ * @param clz 使用 `@Field` 注解的实体类
+ * @param tableName 表名,默认由类名转换
+ */
+export function entitySnapshot(clz: Function, tableName?: string): TableSnapshot {
+  const fields: Record<string, AField> | undefined = Reflect.getMetadata(_fields, clz.prototype);
+  if (!fields) {
+    throw new Error(`${clz.name} has no field`);
+  }
+  const columns: string[] = Reflect.getMetadata(_columns, clz.prototype) ?? [];
+  const { comment } = tableOptionOf(clz);
+  const indexes: IndexOption[] = Reflect.getMetadata(_indexes, clz.prototype) ?? [];
+  return {
+    tableName: tableName ?? tableNameOf(clz),
+    ...(comment ? { comment } : {}),
+    fields: columns.map(P => {
+      // 枚举与表结构无关,且不能序列化为 JSON
+      const field = Object.fromEntries(Object.entries(fields[P]!).filter(([k, v]) => typeof v !== 'function' && k !== 'enum')) as FieldOption;
+      // 快照脱离了实体,与全局策略不一致的列名需要记录下来
+      const C = fields[P]!.C2();
+      if (C !== defaultNaming().column(P)) {
+        field.column = C;
+      }
+      return field;
+    }),
+    ...(indexes.length > 0 ? { indexes: indexes.map(index => ({ ...index })) } : {})
+  };
+}
+const snapshotIndexes = (table: TableSnapshot) =>
+  resolveIndexes(table.tableName, table.fields.map(field => buildField({ ...field }, field.P!)), table.indexes ?? []);
+/** 拆出列定义中的类型与默认值 */
+const columnParts = (field: AField, dbType: DBType) => {
+  const define = compactSql(field[dbType]()).substring(field.C2().length + 1);
+  return {
+    define,
+    type: define.split(/ (?:NOT NULL|CHARACTER SET|COLLATE|DEFAULT)\b/)[0]!,
+    def: / DEFAULT (.+)$/.exec(define)?.[1]
+  };
+};
+const defText = (def: any) => isRawSql(def) ? JSON.stringify(def.$raw) : `${def}`;
+const fieldChanges = (from: FieldOption, to: FieldOption, dbType?: DBType): FieldChange[] => {
+  const changes: FieldChange[] = [];
+  // 指定数据库时按生成的列类型与默认值对比,例如 sqlite 中 varchar 与 text 没有区别;非空始终按快照对比
+  const parts = dbType === undefined ? undefined : [columnParts(buildField({ ...from }, from.P!), dbType), columnParts(buildField({ ...to }, to.P!), dbType)] as const;
+  if (!parts || parts[0].type !== parts[1].type) {
+    if ((from.type ?? SqlType.varchar) !== (to.type ?? SqlType.varchar)) {
+      changes.push('type');
+    }
+    if (from.length !== to.length) {
+      changes.push('length');
+    }
+    if (from.scale !== to.scale) {
+      changes.push('scale');
+    }
+  }
+  if ((from.notNull === true) !== (to.notNull === true)) {
+    changes.push('notNull');
+  }
+  const fromHasDef = from.hasOwnProperty('def');
+  const toHasDef = to.hasOwnProperty('def');
+  const defChanged = parts
+    ? parts[0].def !== parts[1].def
+    : fromHasDef !== toHasDef || (toHasDef && defText(from.def) !== defText(to.def)) || defText(from.onUpdate) !== defText(to.onUpdate);
+  if (defChanged) {
+    changes.push('def');
+  }
+  if ((from.index === true) !== (to.index === true)) {
+    changes.push('index');
+  }
+  if ((from.unique === true) !== (to.unique === true)) {
+    changes.push('unique');
+  }
+  if ((from.id === true) !== (to.id === true)) {
+    changes.push('id');
+  }
+  return changes;
+};
+/**
+ * 对比两个结构快照
+ * @param from 当前(旧)结构
+ * @param to 目标(新)结构
+ * @param option.renames 改名映射:新列名 => 旧列名,未声明的改名将视为删除旧列、新增新列
+ * @param option.dbType 指定时按该数据库生成的列类型与默认值对比,例如 sqlite 中 varchar 与 text 没有区别
+ */
+export function diffSchema(from: TableSnapshot, to: TableSnapshot, option: { renames?: Record<string, string>; dbType?: DBType } = {}): SchemaDiff {
+  const renames = option.renames ?? {};
+  const olds = new Map(from.fields.map(field => [columnOf(field), field]));
+  // 旧列名 => 新列名
+  const matched = new Map<string, string>();
+  const diff: SchemaDiff = { from, to, added: [], dropped: [], renamed: [], changed: [], idChanged: false, droppedIndexes: [], addedIndexes: [] };
+  for (const field of to.fields) {
+    const C = columnOf(field);
+    const oldC = olds.has(C) ? C : renames[C];
+    const old = oldC === undefined ? undefined : olds.get(oldC);
+    if (!old || matched.has(oldC!)) {
+      diff.added.push(field);
+      continue;
+    }
+    matched.set(oldC!, C);
+    const changes = fieldChanges(old, field, option.dbType);
+    if (oldC !== C) {
+      diff.renamed.push({ from: old, to: field, changes });
+    } else if (changes.length > 0) {
+      diff.changed.push({ from: old, to: field, changes });
+    }
+  }
+  diff.dropped = from.fields.filter(field => !matched.has(columnOf(field)));
+  const fromIds = from.fields.filter(field => field.id === true).map(field => matched.get(columnOf(field)) ?? '');
+  const toIds = to.fields.filter(field => field.id === true).map(columnOf);
+  diff.idChanged = fromIds.join(',') !== toIds.join(',');
+  // 索引按名称对比,同名但定义不同的索引需要重建
+  const fromIndexes = snapshotIndexes(from);
+  const toIndexes = snapshotIndexes(to);
+  const sameIndex = (a: IndexDefine, b: IndexDefine) => JSON.stringify(a) === JSON.stringify(b);
+  diff.droppedIndexes = fromIndexes.filter(index => !toIndexes.some(item => sameIndex(item, index)));
+  diff.addedIndexes = toIndexes.filter(index => !fromIndexes.some(item => sameIndex(item, index)));
+  return diff;
+}
+/**
+ * 由对比结果生成有序的变更语句
+ *
+ * 先删除旧索引与主键,最后新建主键与索引;
+ * sqlite 仅支持新增列、改列名与索引变化的原地修改,其余变化采用重建表:
+ * 建临时表 => 复制数据 => 删除旧表 => 临时表改名 => 重建索引
+ * @param diff diffSchema 的结果
+ * @param dbType 数据库类型,支持 Mysql、Postgresql、Sqlite、SqliteRemote
+ * @returns 需依次执行的语句(不带结尾的 `;`)
+ */
+export function migrationSql(diff: SchemaDiff, dbType: DBType): string[] {
+  const name = (value: string) => quoteName(value, dbType);
+  const column = (option: FieldOption) => name(columnOf(option));
+  const table = name(diff.to.tableName);
+  const toField = (option: FieldOption) => buildField({ ...option }, option.P!);
+  const columnChanged = (item: FieldDiff) => item.changes.some(change => change !== 'index' && change !== 'unique' && change !== 'id');
+  const fromIds = diff.from.fields.filter(field => field.id === true);
+  const toIds = diff.to.fields.filter(field => field.id === true).map(toField);
+  // mysql 中建表时才会生成全文索引
+  const createIndex = diff.addedIndexes.filter(index => dbType === DBType.Mysql || !index.fulltext);
+  const dropIndex = diff.droppedIndexes.filter(index => dbType === DBType.Mysql || !index.fulltext).map(index => name(index.name));
+  const sqls: string[] = [];
+  if (diff.from.tableName !== diff.to.tableName) {
+    sqls.push(`ALTER TABLE ${name(diff.from.tableName)} RENAME TO ${table}`);
+  }
+  switch (dbType) {
+    case DBType.Mysql: {
+      sqls.push(...dropIndex.map(name => `DROP INDEX ${name} ON ${table}`));
+      if (diff.idChanged && fromIds.length > 0) {
+        sqls.push(`ALTER TABLE ${table} DROP PRIMARY KEY`);
+      }
+      for (const item of diff.renamed) {
+        sqls.push(columnChanged(item)
+          ? `ALTER TABLE ${table} CHANGE COLUMN ${column(item.from)} ${mysqlColumn(toField(item.to))}`
+          : `ALTER TABLE ${table} RENAME COLUMN ${column(item.from)} TO ${column(item.to)}`);
+      }
+      sqls.push(...diff.dropped.map(field => `ALTER TABLE ${table} DROP COLUMN ${column(field)}`));
+      sqls.push(...diff.added.map(field => `ALTER TABLE ${table} ADD COLUMN ${mysqlColumn(toField(field))}`));
+      for (const item of diff.changed) {
+        if (columnChanged(item)) {
+          sqls.push(`ALTER TABLE ${table} MODIFY COLUMN ${mysqlColumn(toField(item.to))}`);
+        }
+      }
+      if (diff.idChanged && toIds.length > 0) {
+        sqls.push(`ALTER TABLE ${table} ADD PRIMARY KEY (${toIds.map(field => name(field.C2())).join(', ')})`);
+      }
+      sqls.push(...createIndex.map(index => indexSql(table, index, dbType, '')));
+      break;
+    }
+    case DBType.Postgresql: {
+      sqls.push(...dropIndex.map(name => `DROP INDEX IF EXISTS ${name}`));
+      if (diff.idChanged && fromIds.length > 0) {
+        sqls.push(`ALTER TABLE ${table} DROP CONSTRAINT IF EXISTS ${name(`${diff.from.tableName}_pkey`)}`);
+      }
+      sqls.push(...diff.renamed.map(item => `ALTER TABLE ${table} RENAME COLUMN ${column(item.from)} TO ${column(item.to)}`));
+      sqls.push(...diff.dropped.map(field => `ALTER TABLE ${table} DROP COLUMN ${column(field)}`));
+      for (const option of diff.added) {
+        const field = toField(option);
+        sqls.push(`ALTER TABLE ${table} ADD COLUMN ${columnSql(field, DBType.Postgresql)}`);
+        if (field.comment) {
+          sqls.push(`COMMENT ON COLUMN ${table}.${name(field.C2())} IS ${quoteComment(field.comment)}`);
+        }
+      }
+      for (const item of [...diff.renamed, ...diff.changed]) {
+        const field = toField(item.to);
+        const C = name(field.C2());
+        const { type, def } = columnParts(field, DBType.Postgresql);
+        if (item.changes.includes('type') || item.changes.includes('length') || item.changes.includes('scale')) {
+          sqls.push(`ALTER TABLE ${table} ALTER COLUMN ${C} TYPE ${type} USING ${C}::${type}`);
+        }
+        if (item.changes.includes('notNull')) {
+          sqls.push(`ALTER TABLE ${table} ALTER COLUMN ${C} ${field.notNull === true ? 'SET' : 'DROP'} NOT NULL`);
+        }
+        if (item.changes.includes('def')) {
+          sqls.push(def === undefined ? `ALTER TABLE ${table} ALTER COLUMN ${C} DROP DEFAULT` : `ALTER TABLE ${table} ALTER COLUMN ${C} SET DEFAULT ${def}`);
+        }
+      }
+      if (diff.idChanged && toIds.length > 0) {
+        sqls.push(`ALTER TABLE ${table} ADD PRIMARY KEY (${toIds.map(field => name(field.C2())).join(', ')})`);
+      }
+      sqls.push(...createIndex.map(index => indexSql(table, index, dbType, ' IF NOT EXISTS')));
+      break;
+    }
+    case DBType.Sqlite:
+    case DBType.SqliteRemote: {
+      const rebuild = diff.idChanged
+        || diff.dropped.length > 0
+        || diff.added.some(field => field.id === true)
+        // sqlite 不能直接新增没有默认值的非空列
+        || diff.added.some(field => field.notNull === true && field.def === undefined)
+        || [...diff.renamed, ...diff.changed].some(columnChanged);
+      if (!rebuild) {
+        sqls.push(...dropIndex.map(name => `DROP INDEX IF EXISTS ${name}`));
+        sqls.push(...diff.renamed.map(item => `ALTER TABLE ${table} RENAME COLUMN ${column(item.from)} TO ${column(item.to)}`));
+        sqls.push(...diff.added.map(field => `ALTER TABLE ${table} ADD COLUMN ${columnSql(toField(field), dbType)}`));
+        sqls.push(...createIndex.map(index => indexSql(table, index, dbType, ' IF NOT EXISTS')));
+        break;
+      }
+      const temp = `${diff.to.tableName}__new`;
+      const fields = diff.to.fields.map(toField);
+      const copied = [...diff.renamed, ...diff.changed].map(item => [column(item.to), column(item.from)] as const);
+      for (const field of diff.from.fields) {
+        const C = column(field);
+        if (!diff.dropped.includes(field) && !copied.some(([, oldC]) => oldC === C)) {
+          copied.push([C, C]);
+        }
+      }
+      // 没有默认值的非空新列,已有数据填入零值
+      for (const field of diff.added.map(toField).filter(field => field.notNull === true && field.def === undefined)) {
+        copied.push([name(field.C2()), NUMERIC_TYPES.includes(field.type!) ? '0' : `''`]);
+      }
+      sqls.push('PRAGMA foreign_keys = OFF', 'BEGIN TRANSACTION');
+      // 快照不含关联关系,重建的表不带外键约束
+      sqls.push(...tableSqls(temp, fields, toIds, [], [], dbType, { ifNotExists: false }));
+      if (copied.length > 0) {
+        sqls.push(`INSERT INTO ${name(temp)} (${copied.map(([C]) => C).join(', ')}) SELECT ${copied.map(([, oldC]) => oldC).join(', ')} FROM ${table}`);
+      }
+      sqls.push(`DROP TABLE ${table}`, `ALTER TABLE ${name(temp)} RENAME TO ${table}`);
+      sqls.push(...snapshotIndexes(diff.to).filter(index => !index.fulltext).map(index => indexSql(table, index, dbType, ' IF NOT EXISTS')));
+      sqls.push('COMMIT', 'PRAGMA foreign_keys = ON');
+      break;
+    }
+    default:
+      throw new Error(`migrationSql not support ${DBType[dbType]}`);
+  }
+  return sqls;
+}
+//#endregion
+
+//#region 解析建表语句
+/**
+ * 按顶层分隔符切分,忽略引号、括号内的分隔符,并去掉注释
+ * @param backslash 字符串中的 `\` 是否为转义符(mysql)
+ */
+const splitTopLevel = (sql: string, separator: string, backslash: boolean): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let current = '';
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i]!;
+    if (quote) {
+      current += char;
+      if (char === '\\' && backslash && quote === `'`) {
+        current += sql[++i] ?? '';
+      } else if (char === quote) {
+        if (sql[i + 1] === quote) {
+          current += sql[++i];
+        } else {
+          quote = '';
+        }
+      }
+      continue;
+    }
+    if (char === '-' && sql[i + 1] === '-') {
+      while (i < sql.length && sql[i] !== '\n') i++;
+      continue;
+    }
+    if (char === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 1;
+      continue;
+    }
+    if (char === `'` || char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(part => part !== '');
+};
+/** 找到 start 处左括号对应的右括号位置,找不到时返回字符串长度 */
+const matchParen = (sql: string, start: number, backslash: boolean) => {
+  let depth = 0;
+  let quote = '';
+  for (let i = start; i < sql.length; i++) {
+    const char = sql[i]!;
+    if (quote) {
+      if (char === '\\' && backslash && quote === `'`) {
+        i++;
+      } else if (char === quote) {
+        quote = '';
+      }
+    } else if (char === `'` || char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return sql.length;
+};
+/** 去掉标识符的引号,带 schema 时取最后一段 */
+const unquoteName = (name: string) => {
+  const last = name.trim().match(/(?:"[^"]+"|`[^`]+`|\[[^\]]+\]|[^."`[\]\s]+)$/)?.[0] ?? name.trim();
+  return /^["`[]/.test(last) ? last.slice(1, -1) : last;
+};
+const unquoteString = (literal: string, backslash: boolean) => {
+  const body = literal.slice(1, -1).replace(/''/g, `'`);
+  return backslash ? body.replace(/\\(.)/g, (_a: string, b: string) => ({ n: '\n', r: '\r', t: '\t', '0': '\0' })[b] ?? b) : body;
+};
+const NAME = `(?:"[^"]+"|\`[^\`]+\`|\\[[^\\]]+\\]|[\\w$]+)`;
+const QUALIFIED_NAME = `((?:${NAME}\\s*\\.\\s*)*${NAME})`;
+const STRING = `'(?:[^'\\\\]|''|\\\\.)*'`;
+/** 括号内的列名列表:(a, b(10), "c" DESC) => [a, b, c] */
+const parseNameList = (list: string) =>
+  splitTopLevel(list.trim().replace(/^\(|\)$/g, ''), ',', false).map(item => unquoteName(item.match(new RegExp(`^${NAME}`))?.[0] ?? item));
+/**
+ * 索引的列列表:(a, b(10), "c" DESC) => [{C: a}, {C: b, length: 10}, {C: c, order: DESC}]
+ *
+ * 含表达式的索引无法对应到属性,返回 undefined
+ */
+const parseIndexColumns = (list: string): (Omit<IndexColumn, 'P'> & { C: string })[] | undefined => {
+  const columns: (Omit<IndexColumn, 'P'> & { C: string })[] = [];
+  for (const item of splitTopLevel(list.trim().replace(/^\(|\)$/g, ''), ',', false)) {
+    const match = new RegExp(`^(${NAME})(?:\\s*\\(\\s*(\\d+)\\s*\\))?(?:\\s+(ASC|DESC))?(?:\\s+NULLS\\s+(?:FIRST|LAST))?$`, 'i').exec(item);
+    if (!match) {
+      return undefined;
+    }
+    columns.push({
+      C: unquoteName(match[1]!),
+      ...(match[2] ? { length: +match[2] } : {}),
+      ...(match[3] ? { order: match[3].toUpperCase() as 'ASC' | 'DESC' } : {})
+    });
+  }
+  return columns;
+};
+/** 数据库类型名 => SqlType */
+const parseSqlType = (name: string, dbType: DBType): SqlType | undefined => {
+  switch (name.toLowerCase().replace(/\s+/g, ' ')) {
+    case 'tinyint': case 'int1': case 'bool': case 'boolean': case 'bit':
+      return SqlType.tinyint;
+    case 'smallint': case 'int2': case 'smallserial': case 'serial2':
+      return SqlType.smallint;
+    case 'mediumint': case 'int3':
+      return SqlType.mediumint;
+    case 'int': case 'int4': case 'serial': case 'serial4':
+      return SqlType.int;
+    case 'integer':
+      // sqlite 的整数统一为 integer,无法区分宽度
+      return SqlType.int;
+    case 'bigint': case 'int8': case 'bigserial': case 'serial8':
+      return SqlType.bigint;
+    case 'float': case 'float4': case 'real':
+      return dbType === DBType.Sqlite || dbType === DBType.SqliteRemote ? SqlType.double : SqlType.float;
+    case 'double': case 'double precision': case 'float8':
+      return SqlType.double;
+    case 'decimal': case 'numeric': case 'dec': case 'number': case 'money':
+      return SqlType.decimal;
+    case 'date':
+      return SqlType.date;
+    case 'time': case 'timetz':
+      return SqlType.time;
+    case 'year':
+      return SqlType.year;
+    case 'datetime':
+      return SqlType.datetime;
+    case 'timestamp': case 'timestamptz':
+      // postgresql 中 datetime 即生成为 timestamp
+      return dbType === DBType.Postgresql ? SqlType.datetime : SqlType.timestamp;
+    case 'char': case 'character': case 'nchar': case 'bpchar':
+      return SqlType.char;
+    case 'varchar': case 'character varying': case 'nvarchar': case 'varchar2': case 'nvarchar2': case 'uuid':
+      return SqlType.varchar;
+    case 'tinytext':
+      return SqlType.tinytext;
+    case 'text': case 'clob': case 'ntext':
+      return SqlType.text;
+    case 'mediumtext':
+      return SqlType.mediumtext;
+    case 'longtext':
+      return SqlType.longtext;
+    case 'tinyblob':
+      return SqlType.tinyblob;
+    case 'blob': case 'bytea': case 'binary': case 'varbinary':
+      return SqlType.blob;
+    case 'mediumblob':
+      return SqlType.mediumblob;
+    case 'longblob':
+      return SqlType.longblob;
+    case 'json': case 'jsonb':
+      return SqlType.json;
+  }
+  return undefined;
+};
+/**
+ * 解析默认值:字符串去引号、数字转为数字、NULL 与序列视为没有默认值,其余表达式保留为 rawSql
+ */
+const parseDefault = (raw: string, backslash: boolean): { def?: any } => {
+  let value = raw.trim();
+  let wrapped = false;
+  while (/^\(.*\)$/s.test(value)) {
+    value = value.slice(1, -1).trim();
+    wrapped = true;
+  }
+  // postgresql 的类型转换: 'a'::character varying
+  value = value.replace(/(?:::[a-z_][\w ]*(?:\(\d+(?:\s*,\s*\d+)?\))?(?:\[\])?)+$/i, '').trim();
+  if (/^null$/i.test(value) || /^nextval\(/i.test(value)) {
+    return {};
+  }
+  if (value.startsWith(`'`)) {
+    return { def: unquoteString(value, backslash) };
+  }
+  if (/^[-+]?\d+(\.\d+)?$/.test(value)) {
+    return { def: Number(value) };
+  }
+  // mysql 的表达式默认值需要保留括号
+  return { def: rawSql(wrapped ? `(${value})` : value) };
+};
+/** 列定义中 DEFAULT 之后的值:字符串、任意层括号的表达式或函数调用,可带 postgresql 的类型转换 */
+const defaultOf = (rest: string, backslash: boolean) => {
+  const keyword = /\bDEFAULT\s+/i.exec(rest);
+  if (!keyword) {
+    return undefined;
+  }
+  const value = rest.slice(keyword.index + keyword[0].length);
+  if (value.startsWith(`'`)) {
+    return new RegExp(`^${backslash ? STRING : `'(?:[^']|'')*'`}(?:::[\\w ]+)?`).exec(value)?.[0];
+  }
+  const name = /^[^\s,(]*/.exec(value)![0];
+  const end = value[name.length] === '(' ? matchParen(value, name.length, backslash) + 1 : name.length;
+  return value.slice(0, end) + (/^::[\w ]+/.exec(value.slice(end))?.[0] ?? '');
+};
+/** 解析一个列定义 */
+const parseColumn = (define: string, dbType: DBType, backslash: boolean, naming: NamingStrategy): { C: string; field: FieldOption } | undefined => {
+  const match = new RegExp(`^(${NAME})\\s+(character varying|double precision|[a-z_][\\w]*)\\s*(?:\\(\\s*(\\d+)\\s*(?:,\\s*(\\d+)\\s*)?\\))?([\\s\\S]*)$`, 'i').exec(define);
+  if (!match) {
+    return undefined;
+  }
+  const C = unquoteName(match[1]!);
+  const field: FieldOption = { P: naming.property(C) };
+  if (columnOf(field) !== C) {
+    field.column = C;
+  }
+  const type = parseSqlType(match[2]!, dbType);
+  field.type = type ?? SqlType.varchar;
+  if (match[3] !== undefined && type !== SqlType.int && type !== SqlType.bigint && type !== SqlType.smallint && type !== SqlType.tinyint && type !== SqlType.mediumint) {
+    field.length = +match[3];
+  }
+  if (match[4] !== undefined) {
+    field.scale = +match[4];
+  }
+  const rest = match[5]!;
+  if (/\bNOT\s+NULL\b/i.test(rest)) {
+    field.notNull = true;
+  }
+  const def = defaultOf(rest, backslash);
+  if (def !== undefined) {
+    Object.assign(field, parseDefault(def, backslash));
+  }
+  const onUpdate = /\bON\s+UPDATE\s+(CURRENT_TIMESTAMP(?:\(\d*\))?|now\(\d*\))/i.exec(rest);
+  if (onUpdate) {
+    field.onUpdate = rawSql(onUpdate[1]!);
+  }
+  const comment = new RegExp(`\\bCOMMENT\\s+(${STRING})`, 'i').exec(rest);
+  if (comment) {
+    field.comment = unquoteString(comment[1]!, backslash);
+  }
+  const charset = /\b(?:CHARACTER\s+SET|CHARSET)\s+([\w]+)/i.exec(rest);
+  if (charset) {
+    field.charset = charset[1];
+  }
+  const collate = new RegExp(`\\bCOLLATE\\s+(${NAME}(?:\\.${NAME})?)`, 'i').exec(rest);
+  if (collate) {
+    field.collate = collate[1]!.split('.').map(unquoteName).join('.');
+  }
+  if (/\bPRIMARY\s+KEY\b/i.test(rest)) {
+    field.id = true;
+  } else if (/\bUNIQUE\b/i.test(rest)) {
+    field.unique = true;
+  }
+  return { C, field };
+};
+/**
+ * 解析建表语句为结构快照
+ *
+ * 支持 mysql `SHOW CREATE TABLE` 的结果、postgresql 的建表语句(含 `CREATE INDEX`、`COMMENT ON`、`ALTER TABLE ... PRIMARY KEY`)、
+ * sqlite `sqlite_master.sql` 的内容。多条语句以 `;` 分隔。
+ * 使用默认索引名的单列索引标记为字段的 `index`/`unique`,其余索引记入 `indexes`;含表达式的索引会被忽略
+ * @param sql 建表语句
+ * @param dbType 数据库类型,影响字符串转义与类型映射
+ * @param naming 列名转为属性名的命名策略,默认使用全局策略;与全局策略不一致的列名记录在 `column` 中
+ */
+export function parseCreateTable(sql: string, dbType: DBType, naming: NamingStrategy = defaultNaming()): TableSnapshot[] {
+  if (dbType !== DBType.Mysql && dbType !== DBType.Postgresql && dbType !== DBType.Sqlite && dbType !== DBType.SqliteRemote) {
+    throw new Error(`parseCreateTable not support ${DBType[dbType]}`);
+  }
+  const backslash = dbType === DBType.Mysql;
+  const tables: TableSnapshot[] = [];
+  // 表名 => 列名 => 字段
+  const columns = new Map<string, Map<string, FieldOption>>();
+  const findField = (tableName: string, C: string) => columns.get(tableName)?.get(C);
+  // 索引可能先于主键出现,全部解析完成后再归类
+  const indexes: { tableName: string; name?: string; list: string; unique: boolean; fulltext: boolean; using?: string; where?: string }[] = [];
+  const markIds = (tableName: string, names: string[]) => {
+    for (const name of names) {
+      const field = findField(tableName, name);
+      if (field) {
+        field.id = true;
+        delete field.unique;
+      }
+    }
+  };
+  for (const statement of splitTopLevel(sql, ';', backslash)) {
+    const create = new RegExp(`^CREATE\\s+(?:(?:GLOBAL\\s+|LOCAL\\s+)?TEMP(?:ORARY)?\\s+|UNLOGGED\\s+)?TABLE\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?${QUALIFIED_NAME}\\s*\\(`, 'i').exec(statement);
+    if (create) {
+      const tableName = unquoteName(create[1]!);
+      const start = create[0].length - 1;
+      const end = matchParen(statement, start, backslash);
+      const body = statement.substring(start + 1, end);
+      const options = statement.substring(end + 1);
+      const table: TableSnapshot = { tableName, fields: [] };
+      const map = new Map<string, FieldOption>();
+      columns.set(tableName, map);
+      tables.push(table);
+      const ids: string[] = [];
+      for (const item of splitTopLevel(body, ',', backslash)) {
+        if (/^(?:CONSTRAINT\s+\S+\s+)?PRIMARY\s+KEY\b/i.test(item)) {
+          ids.push(...parseNameList(item.substring(item.indexOf('('))));
+        } else if (/^(?:CONSTRAINT\s+\S+\s+)?(?:UNIQUE|FULLTEXT|SPATIAL|KEY|INDEX)\b/i.test(item)) {
+          const define = new RegExp(`^(?:CONSTRAINT\\s+(${NAME})\\s+)?(UNIQUE|FULLTEXT|SPATIAL)?\\s*(?:KEY|INDEX)?\\s*(${NAME})?\\s*(?:USING\\s+(\\w+)\\s*)?\\(`, 'i').exec(item);
+          const kind = define?.[2]?.toUpperCase();
+          if (define && kind !== 'SPATIAL') {
+            const start = define[0].length - 1;
+            const using = define[4] ?? /\bUSING\s+(\w+)/i.exec(item.substring(matchParen(item, start, backslash)))?.[1];
+            indexes.push({
+              tableName,
+              name: define[3] ?? define[1],
+              list: item.substring(start, matchParen(item, start, backslash) + 1),
+              unique: kind === 'UNIQUE',
+              fulltext: kind === 'FULLTEXT',
+              ...(using ? { using } : {})
+            });
+          }
+        } else if (!/^(?:CONSTRAINT|FOREIGN\s+KEY|CHECK|EXCLUDE|PERIOD)\b/i.test(item)) {
+          const column = parseColumn(item, dbType, backslash, naming);
+          if (column) {
+            map.set(column.C, column.field);
+            table.fields.push(column.field);
+          }
+        }
+      }
+      markIds(tableName, ids);
+      const comment = new RegExp(`\\bCOMMENT\\s*=?\\s*(${STRING})`, 'i').exec(options);
+      if (comment) {
+        table.comment = unquoteString(comment[1]!, backslash);
+      }
+      continue;
+    }
+    const index = new RegExp(`^CREATE\\s+(UNIQUE\\s+)?INDEX\\s+(?:CONCURRENTLY\\s+)?(?:IF\\s+NOT\\s+EXISTS\\s+)?(?:${QUALIFIED_NAME}\\s+)?ON\\s+(?:ONLY\\s+)?${QUALIFIED_NAME}\\s*(?:USING\\s+(\\w+)\\s*)?(\\([\\s\\S]*)$`, 'i').exec(statement);
+    if (index) {
+      const end = matchParen(index[5]!, 0, backslash);
+      const where = /^\s*WHERE\s+([\s\S]+)$/i.exec(index[5]!.substring(end + 1))?.[1]?.trim();
+      indexes.push({
+        tableName: unquoteName(index[3]!),
+        ...(index[2] ? { name: unquoteName(index[2]) } : {}),
+        list: index[5]!.substring(0, end + 1),
+        unique: index[1] !== undefined,
+        fulltext: false,
+        ...(index[4] ? { using: index[4] } : {}),
+        ...(where ? { where } : {})
+      });
+      continue;
+    }
+    const primaryKey = new RegExp(`^ALTER\\s+TABLE\\s+(?:ONLY\\s+)?${QUALIFIED_NAME}\\s+ADD\\s+(?:CONSTRAINT\\s+\\S+\\s+)?PRIMARY\\s+KEY\\s*(\\([^)]*\\))`, 'i').exec(statement);
+    if (primaryKey) {
+      markIds(unquoteName(primaryKey[1]!), parseNameList(primaryKey[2]!));
+      continue;
+    }
+    const commentOn = new RegExp(`^COMMENT\\s+ON\\s+(TABLE|COLUMN)\\s+${QUALIFIED_NAME}\\s+IS\\s+(${STRING}|NULL)`, 'i').exec(statement);
+    if (commentOn && commentOn[3] !== undefined && !/^null$/i.test(commentOn[3])) {
+      const names = commentOn[2]!.split('.').map(unquoteName);
+      const comment = unquoteString(commentOn[3], backslash);
+      if (commentOn[1]!.toUpperCase() === 'TABLE') {
+        const table = tables.find(table => table.tableName === names[names.length - 1]);
+        if (table) {
+          table.comment = comment;
+        }
+      } else {
+        const field = findField(names[names.length - 2] ?? '', names[names.length - 1]!);
+        if (field) {
+          field.comment = comment;
+        }
+      }
+    }
+  }
+  for (const index of indexes) {
+    const table = tables.find(table => table.tableName === index.tableName);
+    const list = parseIndexColumns(index.list);
+    if (!table || !list) {
+      continue;
+    }
+    const name = index.name ? unquoteName(index.name) : undefined;
+    const using = index.using && index.using.toLowerCase() !== 'btree' ? index.using.toLowerCase() : undefined;
+    const single = list.length === 1 && !list[0]!.length && !list[0]!.order && !using && !index.where && !index.fulltext;
+    const field = single ? findField(table.tableName, list[0]!.C) : undefined;
+    if (field && (!name || name === indexNameOf(table.tableName, list[0]!.C, index.unique))) {
+      // 主键自带唯一性,不再重复标记
+      if (field.id !== true) {
+        field[index.unique ? 'unique' : 'index'] = true;
+      }
+      continue;
+    }
+    (table.indexes ??= []).push({
+      ...(name ? { name } : {}),
+      columns: list.map(({ C, ...column }) => {
+        const P = findField(table.tableName, C)?.P ?? naming.property(C);
+        return column.length ? { P, ...column } : column.order ? `${P} ${column.order}` : P;
+      }),
+      ...(index.unique ? { unique: true } : {}),
+      ...(index.fulltext ? { fulltext: true } : {}),
+      ...(using ? { using } : {}),
+      ...(index.where ? { where: index.where } : {})
+    });
+  }
+  return tables;
+}
+//#endregion
+
+//#region 生成实体代码
+/** SqlType 对应的 TS 类型 */
+const tsTypeOf = (type: SqlType | undefined) => {
+  switch (type) {
+    case SqlType.tinyint:
+    case SqlType.smallint:
+    case SqlType.mediumint:
+    case SqlType.int:
+    case SqlType.float:
+    case SqlType.double:
+    case SqlType.decimal:
+    case SqlType.year:
+      return 'number';
+    case SqlType.bigint:
+      return 'string | bigint';
+    case SqlType.date:
+    case SqlType.datetime:
+    case SqlType.timestamp:
+      return 'Date';
+    case SqlType.tinyblob:
+    case SqlType.blob:
+    case SqlType.mediumblob:
+    case SqlType.longblob:
+      return 'Buffer';
+    case SqlType.json:
+      return 'Record<string, any>';
+    default:
+      return 'string';
+  }
+};
+/** 转为 TS 字面量 */
+const tsLiteral = (value: any): string => {
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, `\\'`).replace(/\r/g, '\\r').replace(/\n/g, '\\n')}'`;
+  }
+  if (typeof value === 'bigint') {
+    return `${value}n`;
+  }
+  if (value instanceof Array) {
+    return `[${value.map(tsLiteral).join(', ')}]`;
+  }
+  if (value instanceof Date) {
+    return `new Date(${tsLiteral(value.toISOString())})`;
+  }
+  if (value && typeof value === 'object') {
+    return `{ ${Object.entries(value).map(([k, v]) => `${/^[A-Za-z_$][\w$]*$/.test(k) ? k : tsLiteral(k)}: ${tsLiteral(v)}`).join(', ')} }`;
+  }
+  return `${value}`;
+};
+/** rawSql 的源码,只有通用写法时直接传字符串 */
+const rawSqlSource = (raw: RawSql) => {
+  const entries = Object.entries(raw.$raw).filter(([, sql]) => sql !== undefined);
+  return `rawSql(${tsLiteral(entries.length === 1 && entries[0]![0] === 'default' ? entries[0]![1] : Object.fromEntries(entries))})`;
+};
+const jsDoc = (comment: string, indent: string) => `${indent}/** ${comment.replace(/\*\//g, '* /').replace(/\r?\n/g, ' ')} */`;
+/** sys_user => SysUser */
+const classNameOf = (tableName: string) => C2P(tableName.toLowerCase()).replace(/^[a-z]/, (a: string) => a.toUpperCase());
+/** SysUser => sys-user */
+const fileNameOf = (className: string) => P2C(className.replace(/^[A-Z]/, (a: string) => a.toLowerCase())).replace(/_/g, '-');
+export interface EntitySourceOption {
+  /** 类名,默认由表名转换:sys_user => SysUser */
+  className?: string;
+  /** Field、SqlType、Table、Index 的导入路径,默认 baja-lite-field */
+  importFrom?: string;
+}
+/**
+ * 由结构快照生成实体类源码,表名、表注释生成为 `@Table`,快照中的 indexes 生成为 `@Index`
+ *
+ * 快照可以来自 entitySnapshot、parseCreateTable 或保存的JSON
+ * @param table 结构快照
+ * @param option 生成选项
+ */
+export function entitySource(table: TableSnapshot, option: EntitySourceOption = {}): string {
+  const className = option.className ?? classNameOf(table.tableName);
+  const indexes = table.indexes ?? [];
+  const raw = table.fields.some(field => isRawSql(field.def) || isRawSql(field.onUpdate));
+  const imports = ['Field', ...(indexes.length > 0 ? ['Index'] : []), 'SqlType', 'Table', ...(raw ? ['rawSql'] : [])].join(', ');
+  const lines: string[] = [`import { ${imports} } from ${tsLiteral(option.importFrom ?? 'baja-lite-field')};`, ''];
+  if (table.comment) {
+    lines.push(jsDoc(table.comment, ''));
+  }
+  // 未命名的索引按默认规则补全名称
+  const names = resolveIndexes(table.tableName, [], indexes).map(index => index.name);
+  indexes.forEach(({ name, columns, ...index }, i) => {
+    const options = Object.keys(index).length > 0 ? `, ${tsLiteral(index)}` : '';
+    lines.push(`@Index(${tsLiteral(name ?? names[i])}, ${tsLiteral(columns)}${options})`);
+  });
+  lines.push(`@Table(${tsLiteral(table.comment ? { name: table.tableName, comment: table.comment } : { name: table.tableName })})`);
+  lines.push(`export class ${className} {`);
+  for (const field of table.fields) {
+    const options = Object.entries(field)
+      .filter(([k, v]) => k !== 'P' && k !== 'type' && v !== undefined && typeof v !== 'function')
+      .map(([k, v]) => `${k}: ${isRawSql(v) ? rawSqlSource(v) : tsLiteral(v)}`);
+    options.unshift(`type: SqlType.${SqlType[field.type ?? SqlType.varchar]}`);
+    if (field.comment) {
+      lines.push(jsDoc(field.comment, '  '));
+    }
+    lines.push(`  @Field({ ${options.join(', ')} })`);
+    lines.push(`  ${field.P}?: ${tsTypeOf(field.type)};`);
+  }
+  lines.push('}', '');
+  return lines.join('\n');
+}
+/**
+ * 批量生成实体类源码,文件名为类名的中划线形式,并附带 index.ts 汇总导出
+ * @param tables 结构快照
+ * @param option.className 自定义类名
+ * @param option.barrel 是否生成 index.ts,默认TRUE
+ * @returns 文件名 => 源码
+ */
+export function entitySources(tables: TableSnapshot[], option: Omit<EntitySourceOption, 'className'> & { className?: (tableName: string) => string; barrel?: boolean } = {}): Record<string, string> {
+  const files: Record<string, string> = {};
+  const names: string[] = [];
+  for (const table of tables) {
+    const className = option.className?.(table.tableName) ?? classNameOf(table.tableName);
+    const fileName = fileNameOf(className);
+    names.push(fileName);
+    files[`${fileName}.ts`] = entitySource(table, { className, importFrom: option.importFrom });
+  }
+  if (option.barrel !== false) {
+    files['index.ts'] = entityIndexSource(names);
+  }
+  return files;
+}
+/**
+ * 生成汇总导出的 index.ts
+ * @param fileNames 不带扩展名的文件名
+ */
+export const entityIndexSource = (fileNames: string[]) => `${fileNames.map(name => `export * from './${name}';`).join('\n')}\n`;
+//#endregion
+
+//#region MongoDB
+/** SqlType 对应的 bsonType */
+const bsonTypeOf = (type: SqlType | undefined): string | string[] => {
+  switch (type) {
+    case SqlType.tinyint:
+    case SqlType.smallint:
+    case SqlType.mediumint:
+    case SqlType.int:
+    case SqlType.year:
+      return 'int';
+    // 实体中以字符串保存,未转换为 Long 时写入的是字符串
+    case SqlType.bigint:
+      return ['long', 'string'];
+    case SqlType.float:
+    case SqlType.double:
+      return 'double';
+    // 实体中为 number,未转换为 Decimal128 时写入的是 double
+    case SqlType.decimal:
+      return ['decimal', 'double'];
+    case SqlType.date:
+    case SqlType.datetime:
+    case SqlType.timestamp:
+      return 'date';
+    case SqlType.tinyblob:
+    case SqlType.blob:
+    case SqlType.mediumblob:
+    case SqlType.longblob:
+      return 'binData';
+    case SqlType.json:
+      return ['object', 'array'];
+    default:
+      return 'string';
+  }
+};
+/**
+ * 由字段元数据生成集合校验规则,可直接作为 createCollection 的 validator
+ *
+ * 属性名使用列名;notNull 的字段列入 required,其余字段允许 null;字符类型的 length 生成 maxLength
+ * ```typescript
+ * await db.createCollection('user', { validator: mongoSchema(User) });
+ * ```
+ * @param clz 实体类
+ */
+export function mongoSchema(clz: Function): { $jsonSchema: Record<string, any> } {
+  const fields: Record<string, AField> | undefined = Reflect.getMetadata(_fields, clz.prototype);
+  if (!fields) {
+    throw new Error(`${clz.name} has no field`);
+  }
+  const columns: string[] = Reflect.getMetadata(_columns, clz.prototype) ?? [];
+  const required: string[] = [];
+  const properties: Record<string, any> = {};
+  for (const P of columns) {
+    const field = fields[P]!;
+    const C = field.C2();
+    const bsonType = bsonTypeOf(field.type);
+    const property: Record<string, any> = {
+      bsonType: field.notNull === true ? bsonType : [bsonType, 'null'].flat()
+    };
+    if (bsonType === 'string' && field.length !== undefined) {
+      property['maxLength'] = field.length;
+    }
+    if (field.comment) {
+      property['description'] = field.comment;
+    }
+    if (field.notNull === true) {
+      required.push(C);
+    }
+    properties[C] = property;
+  }
+  const { comment } = tableOptionOf(clz);
+  return {
+    $jsonSchema: {
+      bsonType: 'object',
+      ...(comment ? { title: comment } : {}),
+      ...(required.length > 0 ? { required } : {}),
+      properties
+    }
+  };
+}
+/** createIndexes 的索引描述 */
+export interface MongoIndexSpec {
+  key: Record<string, 1 | -1 | 'text'>;
+  name: string;
+  unique?: boolean;
+}
+/**
+ * 由主键与索引生成 createIndexes 的参数
+ *
+ * 主键生成为唯一索引(mongo 的 _id 仍由数据库生成);全文索引生成为 text 索引;部分索引的 where 条件无法转换,会被忽略
+ * ```typescript
+ * await db.collection('user').createIndexes(mongoIndexes(User));
+ * ```
+ * @param clz 实体类
+ */
+export function mongoIndexes(clz: Function): MongoIndexSpec[] {
+  const fields: Record<string, AField> = Reflect.getMetadata(_fields, clz.prototype) ?? {};
+  const ids: string[] = Reflect.getMetadata(_ids, clz.prototype) ?? [];
+  const tableName = tableNameOf(clz);
+  const specs: MongoIndexSpec[] = [];
+  if (ids.length > 0) {
+    specs.push({ key: Object.fromEntries(ids.map(P => [fields[P]!.C2(), 1])), name: `pk_${tableName}`, unique: true });
+  }
+  for (const index of getIndexes(clz, tableName)) {
+    specs.push({
+      key: Object.fromEntries(index.columns.map(column => [column.C, index.fulltext ? 'text' : column.order === 'DESC' ? -1 : 1])),
+      name: index.name,
+      ...(index.unique ? { unique: true } : {})
+    });
+  }
+  return specs;
+}
+//#endregion
+
+//#region ID 生成
+export type IdGeneratorName = 'uuid' | 'uuidv7' | 'ulid' | 'snowflake' | 'uuidShort';
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+const hex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+const uuidFormat = (text: string) => `${text.substring(0, 8)}-${text.substring(8, 12)}-${text.substring(12, 16)}-${text.substring(16, 20)}-${text.substring(20)}`;
+/** 随机 UUID */
+export const uuidv4 = () => crypto.randomUUID();
+let uuidv7Time = 0;
+let uuidv7Seq = 0;
+/** 按时间排序的 UUID,同一毫秒内以 12 位序号保持递增 */
+export const uuidv7 = () => {
+  let now = Date.now();
+  if (now > uuidv7Time) {
+    uuidv7Time = now;
+    uuidv7Seq = randomBytes(2)[0]!;
+  } else if (++uuidv7Seq > 0xfff) {
+    // 序号用尽时借用下一毫秒
+    uuidv7Time++;
+    uuidv7Seq = 0;
+  }
+  now = uuidv7Time;
+  const bytes = randomBytes(16);
+  for (let i = 0; i < 6; i++) {
+    bytes[i] = Math.floor(now / 2 ** (8 * (5 - i))) & 0xff;
+  }
+  bytes[6] = 0x70 | (uuidv7Seq >> 8);
+  bytes[7] = uuidv7Seq & 0xff;
+  bytes[8] = 0x80 | (bytes[8]! & 0x3f);
+  return uuidFormat(hex(bytes));
+};
+const CROCKFORD = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const base32 = (value: bigint, length: number) => {
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    text = CROCKFORD[Number(value & 31n)] + text;
+    value >>= 5n;
+  }
+  return text;
+};
+let ulidTime = 0;
+let ulidRandom = 0n;
+/** ULID:10 位时间 + 16 位随机数,同一毫秒内随机部分递增 */
+export const ulid = () => {
+  const now = Date.now();
+  if (now > ulidTime) {
+    ulidTime = now;
+    ulidRandom = BigInt(`0x${hex(randomBytes(10))}`);
+  } else {
+    ulidRandom = (ulidRandom + 1n) & ((1n << 80n) - 1n);
+  }
+  return base32(BigInt(ulidTime), 10) + base32(ulidRandom, 16);
+};
+export interface SnowflakeOption {
+  /** 机器ID,默认0 */
+  workerId?: number;
+  /** 数据中心ID,默认0 */
+  datacenterId?: number;
+  /** 起始时间毫秒数,默认 2020-01-01 */
+  epoch?: number;
+  /** 机器ID位数,默认5 */
+  workerBits?: number;
+  /** 数据中心ID位数,默认5 */
+  datacenterBits?: number;
+  /** 序号位数,默认12 */
+  sequenceBits?: number;
 }
-const MYSQLCHARSET = `CHARACTER SET utf8mb4 COLLATE utf8mb4_general_ci`;
-const POSTGRESCHARSET = `COLLATE 'pg_catalog'.'default'`;
-export const Field = (config: FieldOption) => {
-  config.type ??= SqlType.varchar;
-  return (object: object, propertyName: string) => {
-    const field = config as AField;
-    field.P = propertyName;
-    field.C = () => P2C(propertyName, globalThis[_Hump]);
-    field.C2 = () => P2C(propertyName, globalThis[_Hump]);
-    field.C3 = () => `${P2C(propertyName, globalThis[_Hump])} ${propertyName}`;
-    const hasDef = field.hasOwnProperty('def') === true;
-    switch (field.type) {
-      case SqlType.tinyint: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} tinyint ${config.notNull === true ? 'NOT NULL' : ''} ${hasDef ? `DEFAULT ${field.def}` : ''
-          }`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} int2 ${config.notNull === true ? 'NOT NULL' : ''} ${hasDef ? `DEFAULT ${field.def}` : ''
-          }`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} integer`;
-        break;
-      }
-      case SqlType.smallint: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} smallint ${config.notNull === true ? 'NOT NULL' : ''
-          } ${hasDef ? `DEFAULT ${field.def}` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} int2 ${config.notNull === true ? 'NOT NULL' : ''} ${hasDef ? `DEFAULT ${field.def}` : ''
-          }`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} integer`;
-        break;
-      }
-      case SqlType.mediumint: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} smallint ${config.notNull === true ? 'NOT NULL' : ''
-          } ${hasDef ? `DEFAULT ${field.def}` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} int4 ${config.notNull === true ? 'NOT NULL' : ''} ${hasDef ? `DEFAULT ${field.def}` : ''
-          }`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} integer`;
-        break;
-      }
-      case SqlType.int: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} int ${config.notNull === true ? 'NOT NULL' : ''} ${hasDef ? `DEFAULT ${field.def}` : ''
-          }`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} int4 ${config.notNull === true ? 'NOT NULL' : ''} ${hasDef ? `DEFAULT ${field.def}` : ''
-          }`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} integer`;
-        break;
-      }
-      case SqlType.bigint: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} bigint ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} int8 ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} integer`;
-        field.Data2SQL = (data: any) => BigInt(data ?? 0);
-        break;
-      }
-      case SqlType.float: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} float4(${config.length ?? 1}, ${config.scale ?? 2}) ${config.notNull === true ? 'NOT NULL' : ''
-          } ${hasDef ? `DEFAULT '${field.def}'` : ''} `;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} float4(${config.length ?? 1}, ${config.scale ?? 2}) ${config.notNull === true ? 'NOT NULL' : ''
-          } ${hasDef ? `DEFAULT '${field.def}'` : ''} `;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} real`;
-        break;
-      }
-      case SqlType.double: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} double(${config.length ?? 1}, ${config.scale ?? 2}) ${config.notNull === true ? 'NOT NULL' : ''
-          } ${hasDef ? `DEFAULT '${field.def}'` : ''} `;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} float8(${config.length ?? 1}, ${config.scale ?? 2}) ${config.notNull === true ? 'NOT NULL' : ''
-          } ${hasDef ? `DEFAULT '${field.def}'` : ''} `;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} real`;
-        break;
-      }
-      case SqlType.decimal: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} decimal(${config.length ?? 1}, ${config.scale ?? 2}) ${config.notNull === true ? 'NOT NULL' : ''
-          } ${hasDef ? `DEFAULT '${field.def}'` : ''} `;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} numeric(${config.length ?? 1}, ${config.scale ?? 2}) ${config.notNull === true ? 'NOT NULL' : ''
-          } ${hasDef ? `DEFAULT '${field.def}'` : ''} `;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} real`;
-        break;
-      }
-      case SqlType.json: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} json ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} text`;
-        break;
-      }
-      case SqlType.longtext: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} longtext ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} text`;
-        break;
-      }
-      case SqlType.mediumtext: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} mediumtext ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} text`;
-        break;
-      }
-      case SqlType.text: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} text`;
-        break;
-      }
-      case SqlType.date: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} date ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} date ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} text`;
-        field.Data2SQL = (data: any) =>
-          typeof data === 'string' ? new Date(data) : data;
-        break;
-      }
-      case SqlType.time: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} time ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} time ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} text`;
-        field.Data2SQL = (data: any) =>
-          typeof data === 'string' ? new Date(data) : data;
-        break;
-      }
-      case SqlType.year: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} year ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} int4 ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} text`;
-        field.Data2SQL = (data: any) =>
-          typeof data === 'string' ? new Date(data) : data;
-        break;
-      }
-      case SqlType.datetime: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} datetime ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} timestamp ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} text`;
-        field.Data2SQL = (data: any) =>
-          typeof data === 'string' ? new Date(data) : data;
-        break;
-      }
-      case SqlType.timestamp: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} timestamp ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} timestamp ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} integer`;
-        field.Data2SQL = (data: any) =>
-          typeof data === 'string' ? +new Date(data) : data;
-        break;
-      }
-      case SqlType.char: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} char(${config.length ?? 1}) ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} char(${config.length ?? 1}) ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} text`;
-        break;
+/**
+ * 创建雪花算法生成器,返回十进制字符串
+ *
+ * 时钟回拨或同一毫秒序号用尽时沿用/借用后续毫秒,不会等待
+ */
+export const createSnowflake = (option: SnowflakeOption = {}) => {
+  const { workerId = 0, datacenterId = 0, epoch = 1577836800000, workerBits = 5, datacenterBits = 5, sequenceBits = 12 } = option;
+  if (workerBits + datacenterBits + sequenceBits >= 63) {
+    throw new Error('snowflake bits too large');
+  }
+  if (workerId < 0 || workerId >= 2 ** workerBits || datacenterId < 0 || datacenterId >= 2 ** datacenterBits) {
+    throw new Error(`snowflake workerId ${workerId} or datacenterId ${datacenterId} out of range`);
+  }
+  const maxSequence = 2 ** sequenceBits - 1;
+  const node = (BigInt(datacenterId) << BigInt(workerBits + sequenceBits)) | (BigInt(workerId) << BigInt(sequenceBits));
+  const timeShift = BigInt(workerBits + datacenterBits + sequenceBits);
+  let last = 0;
+  let sequence = 0;
+  return () => {
+    const now = Date.now();
+    if (now > last) {
+      last = now;
+      sequence = 0;
+    } else if (++sequence > maxSequence) {
+      last++;
+      sequence = 0;
+    }
+    return `${(BigInt(last - epoch) << timeShift) | node | BigInt(sequence)}`;
+  };
+};
+/**
+ * 创建与 mysql uuid_short() 规则一致的生成器:(serverId & 255) << 56 + 启动秒数 << 24 + 自增序号,返回十进制字符串
+ * @param serverId 服务ID,默认0
+ */
+export const createUuidShort = (serverId = 0) => {
+  let value = ((BigInt(serverId) & 255n) << 56n) + (BigInt(Math.floor(Date.now() / 1000)) << 24n);
+  return () => `${value++}`;
+};
+/** 按名称使用的生成器,可替换为自定义配置:idGenerators.snowflake = createSnowflake({ workerId: 3 }) */
+export const idGenerators: Record<IdGeneratorName, () => any> = {
+  uuid: uuidv4,
+  uuidv7,
+  ulid,
+  snowflake: createSnowflake(),
+  uuidShort: createUuidShort()
+};
+/** 字段的生成器:idGenerator 优先,其次 uuid、uuidShort */
+const generatorOf = (field: FieldOption): (() => any) | undefined => {
+  if (typeof field.idGenerator === 'function') {
+    return field.idGenerator;
+  }
+  const name = field.idGenerator ?? (field.uuid === true ? 'uuid' : field.uuidShort === true ? 'uuidShort' : undefined);
+  return name ? () => idGenerators[name]() : undefined;
+};
+/**
+ * 新增前为配置了 idGenerator、uuid、uuidShort 且没有值(undefined 或 null)的字段生成ID,直接修改并返回传入的实体
+ * @param entity 实体,传入数组时逐个处理
+ * @param clz 实体类,默认为实体的构造函数
+ */
+export function fillIds<T extends object>(entity: T, clz?: Function): T;
+export function fillIds<T extends object>(entities: T[], clz?: Function): T[];
+export function fillIds<T extends object>(entities: T | T[], clz?: Function): T | T[] {
+  const list = entities instanceof Array ? entities : [entities];
+  const target = clz ?? list[0]?.constructor;
+  if (!target) {
+    return entities;
+  }
+  const metadata = fieldMetadataOf(target.prototype);
+  const generators = metadata.columns
+    .map(P => [P, generatorOf(metadata.fields[P]!)] as const)
+    .filter((item): item is readonly [string, () => any] => item[1] !== undefined);
+  for (const entity of list) {
+    for (const [P, generate] of generators) {
+      if (entity[P] === undefined || entity[P] === null) {
+        entity[P] = generate();
       }
-      case SqlType.varchar: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} varchar(${config.length ?? 1}) ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} varchar(${config.length ?? 1}) ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} text`;
-        break;
+    }
+  }
+  return entities;
+}
+//#endregion
+
+//#region 枚举
+/** 字段绑定的枚举项,绑定的不是 Enum 数组或 EnumMap 时报错 */
+const enumItems = (field: FieldOption): Enum[] | undefined => {
+  if (field.enum === undefined) {
+    return undefined;
+  }
+  const items = Array.isArray(field.enum) ? field.enum : field.enum !== null && typeof field.enum === 'object' ? Object.values(field.enum) : [];
+  if (items.length === 0 || items.some(item => !(item instanceof Enum))) {
+    throw new Error(`${field.P} enum must be Enum[] or EnumMap`);
+  }
+  return items;
+};
+/** 字段绑定的枚举:值 => 显示文本,未绑定时为 undefined */
+const enumOf = (field: AField) => {
+  const items = enumItems(field);
+  return items ? Object.fromEntries(items.map(item => [item.value(), item.desc()])) : undefined;
+};
+/** 枚举值,数字类型的字段转为数字 */
+const enumValues = (field: AField) => {
+  const labels = enumOf(field);
+  return labels ? Object.keys(labels).map(value => NUMERIC_TYPES.includes(field.type!) && field.type !== SqlType.bigint ? +value : value) : undefined;
+};
+//#endregion
+
+//#region CSV 导入导出
+export interface CsvOption {
+  /** 分隔符,默认 , */
+  separator?: string;
+}
+export interface CsvExportOption<T> extends CsvOption {
+  /** 导出的属性及顺序,默认为 exportable 的字段,按声明顺序 */
+  columns?: (keyof T & string)[];
+  /** 是否输出标题行,默认TRUE */
+  header?: boolean;
+  /** 是否在开头输出 BOM,便于 Excel 识别 UTF-8,默认TRUE */
+  bom?: boolean;
+}
+export interface ImportOption<T> {
+  /**
+   * 按 logicId 字段查询已存在的数据,返回的数据记入 existing,不会出现在 data 中
+   * @param key 由 logicId 字段组成的条件
+   */
+  findExisting?: (key: Partial<T>) => T | undefined | null | Promise<T | undefined | null>;
+}
+export interface CsvImportOption<T> extends ImportOption<T>, CsvOption {
+}
+export interface ImportError {
+  /** 数据所在行号,标题为第1行 */
+  row: number;
+  /** 出错的标题 */
+  column?: string;
+  message: string;
+}
+/** 逐行导入的结果:成功时有 data,已存在时有 old,失败时有 errors */
+export interface ImportRow<T> {
+  row: number;
+  data?: T;
+  old?: T;
+  errors?: ImportError[];
+}
+export interface ImportResult<T> {
+  /** 校验通过且不存在的数据 */
+  data: T[];
+  /** 已存在的数据 */
+  existing: { row: number; data: T; old: T }[];
+  errors: ImportError[];
+}
+/** 可导入导出的判断:未设置时非主键字段为TRUE;指定 columns 时按其顺序 */
+const csvFields = (clz: Function, key: 'importable' | 'exportable', columns?: readonly string[]) => {
+  const metadata = fieldMetadataOf(clz.prototype);
+  if (metadata.columns.length === 0) {
+    throw new Error(`${clz.name} has no field`);
+  }
+  return { metadata, fields: columns ? pickFields(clz, metadata, columns) : metadata.columns.map(P => metadata.fields[P]!).filter(field => field[key] ?? field.id !== true) };
+};
+const csvTitle = (field: AField) => field.comment ?? field.P!;
+const csvCell = (text: string, separator: string) =>
+  /["\r\n]/.test(text) || text.includes(separator) ? `"${text.replace(/"/g, '""')}"` : text;
+/** 导出时的文本:日期按本地时区格式化,json 序列化,二进制转为 base64 */
+const csvText = (field: AField, value: any): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const labels = enumOf(field);
+  if (labels && labels.hasOwnProperty(`${value}`)) {
+    return labels[`${value}`]!;
+  }
+  switch (field.type) {
+    case SqlType.date:
+      return value instanceof Date ? formatDate(value) : `${value}`;
+    case SqlType.datetime:
+    case SqlType.timestamp:
+      return value instanceof Date ? `${formatDate(value)} ${formatTime(value)}` : `${value}`;
+    case SqlType.json:
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    case SqlType.tinyblob:
+    case SqlType.blob:
+    case SqlType.mediumblob:
+    case SqlType.longblob:
+      return value instanceof Uint8Array ? Buffer.from(value).toString('base64') : `${value}`;
+    default:
+      return `${value}`;
+  }
+};
+/**
+ * 导出CSV的每一行(含换行符),用于大数据量的流式输出:
+ * ```typescript
+ * Readable.from(exportCsvLines(User, cursor)).pipe(res);
+ * ```
+ * @param rows 数据,可以是异步迭代器
+ */
+export async function* exportCsvLines<T extends object>(clz: new (...args: any[]) => T, rows: Iterable<T> | AsyncIterable<T>, option: CsvExportOption<T> = {}): AsyncGenerator<string> {
+  const separator = option.separator ?? ',';
+  const { fields } = csvFields(clz, 'exportable', option.columns);
+  if (option.header !== false) {
+    yield `${option.bom === false ? '' : '\ufeff'}${fields.map(field => csvCell(csvTitle(field), separator)).join(separator)}\r\n`;
+  }
+  for await (const row of rows) {
+    yield `${fields.map(field => csvCell(csvText(field, row[field.P!]), separator)).join(separator)}\r\n`;
+  }
+}
+/**
+ * 导出CSV:标题为字段注释,没有注释时为属性名
+ * @param rows 数据
+ */
+export function exportCsv<T extends object>(clz: new (...args: any[]) => T, rows: T[], option: CsvExportOption<T> = {}): string {
+  const separator = option.separator ?? ',';
+  const { fields } = csvFields(clz, 'exportable', option.columns);
+  const lines = rows.map(row => fields.map(field => csvCell(csvText(field, row[field.P!]), separator)).join(separator));
+  if (option.header !== false) {
+    lines.unshift(`${option.bom === false ? '' : '\ufeff'}${fields.map(field => csvCell(csvTitle(field), separator)).join(separator)}`);
+  }
+  return lines.map(line => `${line}\r\n`).join('');
+}
+/**
+ * 逐块解析CSV,支持引号内的分隔符、换行与 "" 转义
+ * @returns 每条记录的单元格
+ */
+async function* parseCsv(chunks: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>, separator: string): AsyncGenerator<string[]> {
+  const decoder = new TextDecoder('utf-8');
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+  // 上一块以引号结尾时,需要看下一块才能判断是否为转义
+  let pendingQuote = false;
+  let first = true;
+  for await (const chunk of chunks) {
+    let text = typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    if (first && text.length > 0) {
+      text = text.replace(/^\ufeff/, '');
+      first = false;
+    }
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]!;
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          cell += '"';
+          continue;
+        }
+        quoted = false;
       }
-      case SqlType.tinyblob: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} tinyblob ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} bytea ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} text`;
-        break;
+      if (quoted) {
+        if (char === '"') {
+          pendingQuote = true;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"' && cell === '') {
+        quoted = true;
+      } else if (text.startsWith(separator, i)) {
+        record.push(cell);
+        cell = '';
+        i += separator.length - 1;
+      } else if (char === '\n') {
+        record.push(cell.endsWith('\r') ? cell.slice(0, -1) : cell);
+        yield record;
+        record = [];
+        cell = '';
+      } else {
+        cell += char;
       }
-      case SqlType.tinytext: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} tinytext ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} text`;
-        break;
+    }
+  }
+  if (cell !== '' || record.length > 0) {
+    record.push(cell.endsWith('\r') ? cell.slice(0, -1) : cell);
+    yield record;
+  }
+}
+/** 按字段类型转换导入的文本,空文本视为 null,枚举字段可以是文本或值 */
+const csvValue = (field: AField, text: string): { value?: any; error?: string } => {
+  if (text === '') {
+    return field.notNull === true ? { error: 'required' } : { value: null };
+  }
+  const labels = enumOf(field);
+  if (labels) {
+    const value = Object.keys(labels).find(value => labels[value] === text) ?? (labels.hasOwnProperty(text) ? text : undefined);
+    if (value === undefined) {
+      return { error: `${text} is not in ${Object.values(labels).join(', ')}` };
+    }
+    text = value;
+  }
+  switch (field.type) {
+    case SqlType.tinyint:
+    case SqlType.smallint:
+    case SqlType.mediumint:
+    case SqlType.int:
+    case SqlType.year:
+      return /^[-+]?\d+$/.test(text.trim()) ? { value: +text } : { error: `${text} is not integer` };
+    case SqlType.bigint:
+      return /^[-+]?\d+$/.test(text.trim()) ? { value: text.trim() } : { error: `${text} is not integer` };
+    case SqlType.float:
+    case SqlType.double:
+    case SqlType.decimal: {
+      const value = Number(text);
+      return text.trim() !== '' && !isNaN(value) ? { value } : { error: `${text} is not number` };
+    }
+    case SqlType.date:
+    case SqlType.datetime:
+    case SqlType.timestamp: {
+      const value = toDate(text.trim());
+      return isNaN(+value) ? { error: `${text} is not date` } : { value };
+    }
+    case SqlType.json:
+      try {
+        return { value: JSON.parse(text) };
+      } catch {
+        return { error: `${text} is not json` };
       }
-      case SqlType.blob: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} binary ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} bytea ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} text`;
-        break;
+    case SqlType.tinyblob:
+    case SqlType.blob:
+    case SqlType.mediumblob:
+    case SqlType.longblob:
+      return { value: Buffer.from(text, 'base64') };
+    case SqlType.char:
+    case SqlType.varchar:
+      return field.length !== undefined && text.length > field.length ? { error: `length over ${field.length}` } : { value: text };
+    default:
+      return { value: text };
+  }
+};
+/**
+ * 逐行校验导入的记录,第一条记录为标题
+ *
+ * 标题可以是字段注释、属性名或列名,未匹配的标题忽略;logicId 字段作为去重键,文件内重复的行报错
+ */
+async function* importRecords<T extends object>(clz: new (...args: any[]) => T, records: AsyncIterable<string[]> | Iterable<string[]>, option: ImportOption<T>): AsyncGenerator<ImportRow<T>> {
+  const { metadata, fields: importable } = csvFields(clz, 'importable');
+  const keys = metadata.logicIds;
+  const seen = new Set<string>();
+  let mapping: (AField | undefined)[] | undefined;
+  let row = 0;
+  for await (const cells of records) {
+    row++;
+    if (!mapping) {
+      mapping = cells.map(title => {
+        const text = title.trim();
+        return importable.find(field => csvTitle(field) === text) ?? importable.find(field => field.P === text || field.C2() === text);
+      });
+      continue;
+    }
+    if (cells.every(cell => cell.trim() === '')) {
+      continue;
+    }
+    const data = new clz();
+    const errors: ImportError[] = [];
+    mapping.forEach((field, i) => {
+      if (field) {
+        const { value, error } = csvValue(field, cells[i] ?? '');
+        if (error) {
+          errors.push({ row, column: csvTitle(field), message: error });
+        } else {
+          data[field.P!] = value;
+        }
       }
-      case SqlType.text: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} text`;
-        break;
+    });
+    if (errors.length === 0 && keys.length > 0) {
+      const key = Object.fromEntries(keys.map(P => [P, data[P]])) as Partial<T>;
+      const text = JSON.stringify(keys.map(P => csvText(metadata.fields[P]!, data[P])));
+      if (seen.has(text)) {
+        errors.push({ row, message: `duplicate ${keys.join(',')}` });
+      } else {
+        seen.add(text);
+        const old = await option.findExisting?.(key);
+        if (old) {
+          yield { row, data, old };
+          continue;
+        }
       }
-      case SqlType.mediumblob: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} mediumblob ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} bytea ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} text`;
-        break;
+    }
+    yield errors.length > 0 ? { row, errors } : { row, data };
+  }
+}
+const collectImport = async <T>(rows: AsyncIterable<ImportRow<T>>): Promise<ImportResult<T>> => {
+  const result: ImportResult<T> = { data: [], existing: [], errors: [] };
+  for await (const item of rows) {
+    if (item.errors) {
+      result.errors.push(...item.errors);
+    } else if (item.old) {
+      result.existing.push({ row: item.row, data: item.data!, old: item.old });
+    } else {
+      result.data.push(item.data!);
+    }
+  }
+  return result;
+};
+/**
+ * 流式导入CSV,逐行返回结果
+ * @param source 文本或文本块/Buffer 的迭代器,如 fs.createReadStream(file)
+ */
+export function importCsvRows<T extends object>(clz: new (...args: any[]) => T, source: string | Iterable<string | Uint8Array> | AsyncIterable<string | Uint8Array>, option: CsvImportOption<T> = {}): AsyncGenerator<ImportRow<T>> {
+  return importRecords(clz, parseCsv(typeof source === 'string' ? [source] : source, option.separator ?? ','), option);
+}
+/**
+ * 导入CSV,汇总全部结果;大文件使用 importCsvRows 逐行处理
+ * @param source 文本或文本块/Buffer 的迭代器
+ */
+export function importCsv<T extends object>(clz: new (...args: any[]) => T, source: string | Iterable<string | Uint8Array> | AsyncIterable<string | Uint8Array>, option: CsvImportOption<T> = {}): Promise<ImportResult<T>> {
+  return collectImport(importCsvRows(clz, source, option));
+}
+/**
+ * 表格导入导出的内部方法,供 `baja-lite-field/xlsx` 使用,不属于公开接口
+ * @internal
+ */
+export const _tabular = { csvFields, csvTitle, csvText, enumOf, importRecords, collectImport, toDate, formatDate, formatTime, tableOptionOf, NUMERIC_TYPES };
+//#endregion
+
+
+//#region JSON Schema
+export type JsonSchema = Record<string, any>;
+export interface JsonSchemaOption {
+  /** 文档的 $id */
+  $id?: string;
+  /** 是否允许未定义的属性,默认TRUE */
+  additionalProperties?: boolean;
+}
+/** 有符号整数的范围 */
+const INTEGER_RANGES: Partial<Record<SqlType, [number, number]>> = {
+  [SqlType.tinyint]: [-128, 127],
+  [SqlType.smallint]: [-32768, 32767],
+  [SqlType.mediumint]: [-8388608, 8388607],
+  [SqlType.int]: [-2147483648, 2147483647],
+  [SqlType.year]: [1901, 2155]
+};
+/** 默认值转为 JSON,SQL 表达式、函数等无法表示的返回 undefined */
+const jsonDefault = (def: any) => isRawSql(def) ? undefined
+  : def instanceof Date ? def.toISOString()
+    : typeof def === 'bigint' ? `${def}`
+      : typeof def === 'function' || typeof def === 'symbol' ? undefined
+        : def;
+/** 单个字段的 schema,不含 null */
+const fieldSchema = (field: AField): JsonSchema => {
+  const values = enumValues(field);
+  if (values) {
+    return { type: typeof values[0] === 'number' ? 'integer' : 'string', enum: values };
+  }
+  switch (field.type) {
+    case SqlType.tinyint:
+    case SqlType.smallint:
+    case SqlType.mediumint:
+    case SqlType.int:
+    case SqlType.year: {
+      const [minimum, maximum] = INTEGER_RANGES[field.type]!;
+      return { type: 'integer', minimum, maximum };
+    }
+    case SqlType.bigint:
+      // 超出双精度,以字符串传递
+      return { type: 'string', pattern: '^-?\\d{1,19}$', format: 'int64' };
+    case SqlType.float:
+    case SqlType.double:
+      return { type: 'number' };
+    case SqlType.decimal: {
+      if (field.length === undefined) {
+        return { type: 'number' };
       }
-      case SqlType.mediumtext: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} mediumtext ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} text`;
-        break;
+      const scale = field.scale ?? 0;
+      const limit = 10 ** (field.length - scale);
+      // 小数的 multipleOf 受浮点误差影响会拒绝有效值(0.3 / 0.1),只限制整数
+      return { type: 'number', ...(scale === 0 ? { multipleOf: 1 } : {}), exclusiveMinimum: -limit, exclusiveMaximum: limit };
+    }
+    case SqlType.date:
+      return { type: 'string', format: 'date' };
+    case SqlType.time:
+      return { type: 'string', format: 'time' };
+    case SqlType.datetime:
+    case SqlType.timestamp:
+      return { type: 'string', format: 'date-time' };
+    case SqlType.char:
+    case SqlType.varchar:
+      return field.length === undefined ? { type: 'string' } : { type: 'string', maxLength: field.length };
+    case SqlType.tinyblob:
+    case SqlType.blob:
+    case SqlType.mediumblob:
+    case SqlType.longblob:
+      return { type: 'string', contentEncoding: 'base64' };
+    case SqlType.json:
+      return {};
+    default:
+      return { type: 'string' };
+  }
+};
+/** 字段的属性 schema:可为空时 type 追加 null,附带 description、default */
+const propertySchema = (field: AField): JsonSchema => {
+  const schema = fieldSchema(field);
+  if (field.notNull !== true && schema['type']) {
+    schema['type'] = [schema['type'], 'null'];
+    if (schema['enum']) {
+      schema['enum'] = [...schema['enum'], null];
+    }
+  }
+  if (field.comment) {
+    schema['description'] = field.comment;
+  }
+  const def = jsonDefault(field.def);
+  if (def !== undefined) {
+    schema['default'] = def;
+  }
+  return schema;
+};
+/**
+ * 生成 JSON Schema(2020-12),用于校验接口数据、与其他语言的服务共享结构
+ * ```typescript
+ * toJsonSchema(User, { $id: 'https://example.com/user.json', additionalProperties: false });
+ * ```
+ */
+export function toJsonSchema(clz: Function, option: JsonSchemaOption = {}): JsonSchema {
+  const metadata = getEntityMetadata(clz);
+  const fields = metadata.columns.map(P => metadata.fields[P]!);
+  const comment = metadata.table.comment;
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    ...(option.$id ? { $id: option.$id } : {}),
+    title: clz.name,
+    ...(comment ? { description: comment } : {}),
+    type: 'object',
+    properties: Object.fromEntries(fields.map(field => [field.P!, propertySchema(field)])),
+    required: fields.filter(field => field.notNull === true).map(field => field.P!),
+    additionalProperties: option.additionalProperties ?? true
+  };
+}
+//#endregion
+
+//#region OpenAPI
+export interface OpenApiOption {
+  /** 是否生成新增(`${name}Create`)、修改(`${name}Update`)的变体,默认FALSE */
+  variants?: boolean;
+}
+/** 主键与 uuid 字段只读 */
+const readOnlyField = (field: AField) => field.id === true || field.uuid === true || field.uuidShort === true;
+/**
+ * 生成 OpenAPI 3.1 的 components.schemas,实体间的关联通过 $ref 引用
+ *
+ * 新增变体去掉只读字段,没有默认值的 notNull 字段必填;修改变体去掉只读字段,全部可选
+ * ```typescript
+ * const document = { openapi: '3.1.0', components: toOpenApiComponents([User, Order], { variants: true }) };
+ * // $ref: '#/components/schemas/User'
+ * ```
+ */
+export function toOpenApiComponents(classes: Function[], option: OpenApiOption = {}): { schemas: Record<string, JsonSchema> } {
+  const schemas: Record<string, JsonSchema> = {};
+  const ref = (clz: Function) => ({ $ref: `#/components/schemas/${clz.name}` });
+  for (const clz of classes) {
+    const metadata = getEntityMetadata(clz);
+    const fields = metadata.columns.map(P => metadata.fields[P]!);
+    const description = metadata.table.comment ? { description: metadata.table.comment } : {};
+    const properties = (list: AField[], readOnly: boolean) => Object.fromEntries(list.map(field => {
+      const schema = propertySchema(field);
+      if (schema['default'] !== undefined) {
+        schema['examples'] = [schema['default']];
       }
-      case SqlType.longblob: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} longblob ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} bytea ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} text`;
-        break;
+      if (readOnly && readOnlyField(field)) {
+        schema['readOnly'] = true;
       }
-      case SqlType.longtext: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} longtext ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} text ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} text`;
-        break;
+      return [field.P!, schema];
+    }));
+    const relations: Record<string, RelationDefine> = Reflect.getMetadata(_relations, clz.prototype) ?? {};
+    const references = Object.fromEntries(Object.values(relations)
+      .filter(relation => classes.includes(relation.target()))
+      .map(relation => [relation.P, relation.type === 'ManyToOne' ? { ...ref(relation.target()), readOnly: true } : { type: 'array', items: ref(relation.target()), readOnly: true }]));
+    schemas[clz.name] = {
+      type: 'object',
+      ...description,
+      properties: { ...properties(fields, true), ...references },
+      required: fields.filter(field => field.notNull === true).map(field => field.P!)
+    };
+    if (option.variants === true) {
+      const writable = fields.filter(field => !readOnlyField(field));
+      schemas[`${clz.name}Create`] = {
+        type: 'object',
+        ...description,
+        properties: properties(writable, false),
+        required: writable.filter(field => field.notNull === true && jsonDefault(field.def) === undefined).map(field => field.P!)
+      };
+      schemas[`${clz.name}Update`] = {
+        type: 'object',
+        ...description,
+        properties: properties(writable, false)
+      };
+    }
+  }
+  return { schemas };
+}
+//#endregion
+
+//#region 前端声明
+export interface DeclarationOption {
+  /** 日期类型,接口传输时为字符串,默认 string */
+  dateType?: 'string' | 'Date';
+  /** 是否生成字段信息常量 `${name}Fields`,默认TRUE */
+  fields?: boolean;
+  /** 是否生成新增(`${name}Create`)、修改(`${name}Update`)的类型,默认FALSE */
+  variants?: boolean;
+}
+/** 前端使用的 TS 类型:bigint 为字符串,二进制为 base64 字符串,绑定枚举时为值的联合类型 */
+const declarationTypeOf = (field: AField, option: DeclarationOption) => {
+  const values = enumValues(field);
+  if (values && values.length > 0) {
+    return values.map(tsLiteral).join(' | ');
+  }
+  switch (field.type) {
+    case SqlType.bigint:
+    case SqlType.tinyblob:
+    case SqlType.blob:
+    case SqlType.mediumblob:
+    case SqlType.longblob:
+      return 'string';
+    case SqlType.date:
+    case SqlType.datetime:
+    case SqlType.timestamp:
+      return option.dateType ?? 'string';
+    default:
+      return tsTypeOf(field.type);
+  }
+};
+/**
+ * 生成前端可用的类型声明,不依赖 reflect-metadata 与实体类
+ *
+ * 每个实体生成 interface,注释来自 comment;字段信息常量包含标题、长度、小数位、是否必填与枚举选项,用于生成表单;
+ * 关联到同一批实体的属性引用对方的 interface
+ * ```typescript
+ * fs.writeFileSync('types/entity.ts', declarationSource([User, Order], { variants: true }));
+ * ```
+ */
+export function declarationSource(classes: Function[], option: DeclarationOption = {}): string {
+  const lines: string[] = ['// 由 baja-lite-field 生成,请勿手动修改', ''];
+  for (const clz of classes) {
+    const metadata = getEntityMetadata(clz);
+    const fields = metadata.columns.map(P => metadata.fields[P]!);
+    if (metadata.table.comment) {
+      lines.push(jsDoc(metadata.table.comment, ''));
+    }
+    lines.push(`export interface ${clz.name} {`);
+    for (const field of fields) {
+      if (field.comment) {
+        lines.push(jsDoc(field.comment, '  '));
       }
-      case SqlType.json: {
-        field[DBType.Mysql] = () =>
-          `${field.C2()} json ${config.notNull === true ? 'NOT NULL' : ''
-          } ${MYSQLCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.Postgresql] = () =>
-          `${field.C2()} jsonb ${config.notNull === true ? 'NOT NULL' : ''
-          } ${POSTGRESCHARSET} ${hasDef ? `DEFAULT '${field.def}'` : ''}`;
-        field[DBType.SqliteRemote] = field[DBType.Sqlite] = () =>
-          `${field.C2()} text`;
-        break;
+      lines.push(`  ${field.P}?: ${declarationTypeOf(field, option)};`);
+    }
+    const relations: Record<string, RelationDefine> = Reflect.getMetadata(_relations, clz.prototype) ?? {};
+    for (const relation of Object.values(relations)) {
+      const target = relation.target();
+      if (classes.includes(target)) {
+        lines.push(`  ${relation.P}?: ${target.name}${relation.type === 'ManyToOne' ? '' : '[]'};`);
       }
     }
-    let __fields = Reflect.getMetadata(_fields, object);
-    let __columns = Reflect.getMetadata(_columns, object);
-    let __columnsNoId = Reflect.getMetadata(_columnsNoId, object);
-    let __ids = Reflect.getMetadata(_ids, object);
-    let __logicIds = Reflect.getMetadata(_logicIds, object);
-    let __index = Reflect.getMetadata(_index, object);
-    let __def = Reflect.getMetadata(_def, object);
-
-    if (!__fields) {
-      __fields = {};
-      __columns = [];
-      __columnsNoId = [];
-      __ids = [];
-      __index = [];
-      __def = {};
-    }
-    __fields[propertyName] = field;
-    __columns.push(propertyName);
-    if (field.id === true) {
-      __ids.push(propertyName);
-    } else {
-      __columnsNoId.push(propertyName);
+    lines.push('}');
+    if (option.fields !== false) {
+      lines.push(`export const ${clz.name}Fields = {`);
+      for (const field of fields) {
+        const labels = enumOf(field);
+        const values = enumValues(field);
+        const info = {
+          label: field.comment ?? field.P!,
+          ...(field.length !== undefined ? { length: field.length } : {}),
+          ...(field.scale !== undefined ? { scale: field.scale } : {}),
+          ...(field.notNull === true ? { required: true } : {}),
+          ...(labels ? { options: Object.values(labels).map((label, i) => ({ value: values![i], label })) } : {})
+        };
+        lines.push(`  ${field.P}: ${tsLiteral(info)},`);
+      }
+      lines.push('} as const;');
     }
-    if (field.logicId === true) {
-      __logicIds.push(propertyName);
+    if (option.variants === true) {
+      const readOnly = fields.filter(readOnlyField).map(field => tsLiteral(field.P));
+      const ids = metadata.ids.map(P => tsLiteral(P));
+      lines.push(readOnly.length > 0 ? `export type ${clz.name}Create = Omit<${clz.name}, ${readOnly.join(' | ')}>;` : `export type ${clz.name}Create = ${clz.name};`);
+      lines.push(ids.length > 0 ? `export type ${clz.name}Update = Partial<${clz.name}Create> & Required<Pick<${clz.name}, ${ids.join(' | ')}>>;` : `export type ${clz.name}Update = Partial<${clz.name}Create>;`);
     }
-    if (field.index === true) {
-      __index.push(propertyName);
-    }
-    if (hasDef) {
-      __def[propertyName] = field.def;
-    }
-    Reflect.defineMetadata(_fields, __fields, object);
-    Reflect.defineMetadata(_columns, __columns, object);
-    Reflect.defineMetadata(_columnsNoId, __columnsNoId, object);
-    Reflect.defineMetadata(_ids, __ids, object);
-    Reflect.defineMetadata(_logicIds, __logicIds, object);
-    Reflect.defineMetadata(_index, __index, object);
-    Reflect.defineMetadata(_def, __def, object);
-    if (field.hasOwnProperty('logicDelete')) {
-      Reflect.defineMetadata(_deleteState, field.logicDelete, object);
-      Reflect.defineMetadata(_stateFileName, propertyName, object);
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+//#endregion
+
+//#region 模拟数据
+export interface FakeOption<T> {
+  /** 随机种子,相同的种子生成相同的数据,默认1 */
+  seed?: number;
+  /** 数量,默认1 */
+  count?: number;
+  /** 可为空的字段生成 null 的比例,默认0.1 */
+  nullRate?: number;
+  /** 覆盖生成的值,函数的参数为序号 */
+  overrides?: Partial<T> | ((index: number) => Partial<T>);
+}
+/** mulberry32 */
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+const FAKE_SURNAMES = '王李张刘陈杨黄赵吴周徐孙马朱胡郭何高林罗郑梁谢宋唐许韩冯邓曹彭曾肖田董袁潘于蒋蔡余杜叶程苏魏吕丁任沈';
+const FAKE_GIVEN_NAMES = '伟芳娜秀英敏静丽强磊军洋勇艳杰娟涛明超秀兰霞平刚桂英华玉萍红娥玲芬燕彬鹏辉晨欣怡浩宇子涵梓轩雨轩博文';
+const FAKE_WORDS = ['数据', '系统', '服务', '管理', '平台', '订单', '客户', '产品', '项目', '信息', '科技', '发展', '质量', '标准', '流程', '运营'];
+const FAKE_CITIES: [string, string][] = [['北京', '110105'], ['上海', '310104'], ['广州', '440106'], ['深圳', '440305'], ['杭州', '330106'], ['成都', '510107'], ['南京', '320106'], ['武汉', '420106']];
+const CREDIT_CODE_CHARS = '0123456789ABCDEFGHJKLMNPQRTUWXY';
+/** 按属性名、注释生成常见的业务数据,不符合时返回 undefined */
+const fakeText = (field: AField, random: () => number): string | undefined => {
+  const pick = <V>(list: ArrayLike<V>) => list[Math.floor(random() * list.length)]!;
+  const digits = (length: number) => Array.from({ length }, () => Math.floor(random() * 10)).join('');
+  const city = pick(FAKE_CITIES);
+  const name = `${field.P} ${field.comment ?? ''}`;
+  if (/idcard|idno|身份证/i.test(name)) {
+    const birth = new Date(1960 + Math.floor(random() * 45), Math.floor(random() * 12), 1 + Math.floor(random() * 28));
+    const code = `${city[1]}${formatDate(birth).replace(/-/g, '')}${digits(3)}`;
+    const factor = [7, 9, 10, 5, 8, 4, 2, 1, 6, 3, 7, 9, 10, 5, 8, 4, 2];
+    const sum = [...code].reduce((sum, char, i) => sum + +char * factor[i]!, 0);
+    return `${code}${'10X98765432'[sum % 11]}`;
+  }
+  if (/license|creditcode|营业执照|信用代码/i.test(name)) {
+    const code = `91${city[1]}${Array.from({ length: 9 }, () => pick(CREDIT_CODE_CHARS)).join('')}`;
+    const weights = [1, 3, 9, 27, 19, 26, 16, 17, 20, 29, 25, 13, 8, 24, 10, 30, 28];
+    const sum = [...code].reduce((sum, char, i) => sum + CREDIT_CODE_CHARS.indexOf(char) * weights[i]!, 0);
+    return `${code}${CREDIT_CODE_CHARS[(31 - sum % 31) % 31]}`;
+  }
+  if (/mobile|phone|手机|电话/i.test(name)) {
+    return `1${pick('3456789')}${digits(9)}`;
+  }
+  if (/email|邮箱/i.test(name)) {
+    return `${pick(['li', 'wang', 'zhang', 'chen', 'liu'])}${digits(4)}@${pick(['qq.com', '163.com', 'example.com'])}`;
+  }
+  if (/company|corp|企业|公司|单位/i.test(name)) {
+    return `${city[0]}${pick(FAKE_WORDS)}${pick(FAKE_WORDS)}有限公司`;
+  }
+  if (/address|地址/i.test(name)) {
+    return `${city[0]}市${pick(FAKE_WORDS)}路${1 + Math.floor(random() * 999)}号`;
+  }
+  if (/^(real|user|nick|full|contact)?name$|姓名|联系人/i.test(field.P!) || /姓名|联系人/.test(field.comment ?? '')) {
+    return `${pick(FAKE_SURNAMES)}${pick(FAKE_GIVEN_NAMES)}${random() < 0.5 ? pick(FAKE_GIVEN_NAMES) : ''}`;
+  }
+  return undefined;
+};
+/** 按字段类型生成随机值 */
+const fakeValue = (field: AField, index: number, random: () => number): any => {
+  const int = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const pick = <V>(list: ArrayLike<V>) => list[Math.floor(random() * list.length)]!;
+  const values = enumValues(field);
+  if (values && values.length > 0) {
+    return pick(values);
+  }
+  const unique = field.id === true || field.logicId === true || field.unique === true;
+  /** 不重复的整数按序号递增,超出类型范围时报错 */
+  const sequence = () => {
+    const max = INTEGER_RANGES[field.type!]![1];
+    if (index + 1 > max) {
+      throw new Error(`unique value of ${field.P} out of ${SqlType[field.type!]} range, max ${max}`);
     }
+    return index + 1;
   };
+  switch (field.type) {
+    case SqlType.tinyint:
+      return unique ? sequence() : int(0, 127);
+    case SqlType.smallint:
+    case SqlType.mediumint:
+    case SqlType.int:
+      return unique ? sequence() : int(0, 10000);
+    case SqlType.year:
+      return int(1970, 2030);
+    case SqlType.bigint:
+      return unique ? `${index + 1}` : `${int(1, 1e9)}`;
+    case SqlType.float:
+    case SqlType.double:
+      return +(random() * 1000).toFixed(2);
+    case SqlType.decimal: {
+      const scale = field.scale ?? 0;
+      const max = 10 ** Math.min((field.length ?? 10) - scale, 6);
+      return +Math.min(random() * max, max - 10 ** -scale).toFixed(scale);
+    }
+    case SqlType.date:
+      return new Date(int(2000, 2025), int(0, 11), int(1, 28));
+    case SqlType.datetime:
+    case SqlType.timestamp:
+      return new Date(int(2020, 2025), int(0, 11), int(1, 28), int(0, 23), int(0, 59), int(0, 59));
+    case SqlType.time:
+      return `${pad(int(0, 23))}:${pad(int(0, 59))}:${pad(int(0, 59))}`;
+    case SqlType.json:
+      return { id: int(1, 1000), name: pick(FAKE_WORDS), enabled: random() < 0.5 };
+    case SqlType.tinyblob:
+    case SqlType.blob:
+    case SqlType.mediumblob:
+    case SqlType.longblob:
+      return Buffer.from(Array.from({ length: 16 }, () => int(0, 255)));
+    case SqlType.tinytext:
+    case SqlType.text:
+    case SqlType.mediumtext:
+    case SqlType.longtext:
+      return Array.from({ length: int(3, 8) }, () => pick(FAKE_WORDS)).join('');
+    default: {
+      const length = field.length ?? 32;
+      if (field.uuid === true || field.idGenerator !== undefined) {
+        const hex = Array.from({ length: 32 }, () => pick('0123456789abcdef')).join('');
+        const uuid = `${hex.substring(0, 8)}-${hex.substring(8, 12)}-4${hex.substring(13, 16)}-${pick('89ab')}${hex.substring(17, 20)}-${hex.substring(20)}`;
+        return length >= 36 ? uuid : hex.substring(0, length);
+      }
+      const text = fakeText(field, random);
+      if (text !== undefined && text.length <= length) {
+        return text;
+      }
+      const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
+      return Array.from({ length: field.type === SqlType.char ? length : Math.min(length, int(6, 12)) }, () => pick(chars)).join('');
+    }
+  }
 };
+/**
+ * 按字段定义生成模拟数据,相同的种子生成相同的数据
+ *
+ * 数值在类型范围内,字符不超过 length;有默认值的字段使用默认值,主键、logicId、unique 字段不重复;
+ * 姓名、手机、身份证、营业执照、邮箱等按属性名或注释识别,可以通过 Patterns、validIdCard、validateBusinessLicense 的校验
+ * ```typescript
+ * const users = fake(User, { seed: 42, count: 100, overrides: i => ({ tenantId: 't1' }) });
+ * ```
+ */
+export function fake<T extends object>(clz: new (...args: any[]) => T, option: FakeOption<T> = {}): T[] {
+  const metadata = getEntityMetadata(clz);
+  const fields = metadata.columns.map(P => metadata.fields[P]!);
+  const random = seededRandom(option.seed ?? 1);
+  const nullRate = option.nullRate ?? 0.1;
+  const used = new Map<string, Set<string>>();
+  return Array.from({ length: option.count ?? 1 }, (_, index) => {
+    const data = new clz();
+    for (const field of fields) {
+      const unique = field.id === true || field.logicId === true || field.unique === true;
+      if (field.P === metadata.deletedAt?.P || field.P === metadata.deletedBy?.P) {
+        data[field.P!] = null;
+      } else if (!unique && field.def !== undefined && !isRawSql(field.def)) {
+        data[field.P!] = typeof field.def === 'object' && field.def !== null ? structuredClone(field.def) : field.def;
+      } else if (!unique && field.notNull !== true && random() < nullRate) {
+        data[field.P!] = null;
+      } else if (unique) {
+        const set = used.get(field.P!) ?? new Set<string>();
+        used.set(field.P!, set);
+        let value: any;
+        for (let i = 0; ; i++) {
+          value = fakeValue(field, index + i * (option.count ?? 1), random);
+          if (!set.has(csvText(field, value))) {
+            break;
+          }
+          if (i === 100) {
+            throw new Error(`can not generate unique value for ${clz.name}.${field.P}`);
+          }
+        }
+        set.add(csvText(field, value));
+        data[field.P!] = value;
+      } else {
+        data[field.P!] = fakeValue(field, index, random);
+      }
+    }
+    return Object.assign(data, typeof option.overrides === 'function' ? option.overrides(index) : option.overrides);
+  });
+}
+//#endregion
 
 export class SetEx<T> extends Set {
   protected _key: keyof T;
@@ -2033,6 +5217,92 @@ export class ValidForm<FormType> {
   }
 }
 
+/** 日期是否有效,YYYY-MM-DD 开头的字符串按日历校验 */
+const validDate = (value: any) => {
+  const date = toDate(value);
+  if (isNaN(+date)) {
+    return false;
+  }
+  const parts = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})/.exec(value) : null;
+  if (parts) {
+    const day = new Date(+parts[1]!, +parts[2]! - 1, +parts[3]!);
+    return day.getMonth() === +parts[2]! - 1 && day.getDate() === +parts[3]!;
+  }
+  return true;
+};
+/** 字段对应的验证规则 */
+const validItemOf = <T>(field: AField): ValidItemType<T> => {
+  const label = field.comment ?? field.P!;
+  const item: ValidItemType<T> = { label };
+  if (field.notNull === true) {
+    item.required = true;
+  }
+  switch (field.type) {
+    case SqlType.tinyint:
+    case SqlType.smallint:
+    case SqlType.mediumint:
+    case SqlType.int:
+    case SqlType.year: {
+      const [min, max] = INTEGER_RANGES[field.type]!;
+      return { ...item, mkType: 'number', mkGe: min, mkLe: max, mkPattern: /^-?\d+$/ };
+    }
+    case SqlType.bigint:
+      return { ...item, mkPattern: /^-?\d{1,19}$/ };
+    case SqlType.float:
+    case SqlType.double:
+      return { ...item, mkType: 'number' };
+    case SqlType.decimal: {
+      if (field.length === undefined) {
+        return { ...item, mkType: 'number' };
+      }
+      const scale = field.scale ?? 0;
+      const max = +`${'9'.repeat(Math.max(field.length - scale, 1))}.${'9'.repeat(scale)}`;
+      return { ...item, mkType: 'number', mkGe: -max, mkLe: max, mkPattern: scale > 0 ? new RegExp(`^-?\\d+(\\.\\d{1,${scale}})?$`) : /^-?\d+$/ };
+    }
+    case SqlType.date:
+    case SqlType.datetime:
+    case SqlType.timestamp:
+      return {
+        ...item,
+        mkTrigger: 'change',
+        mkCustom: async (_form, value) => {
+          if (value !== '' && value !== undefined && value !== null && !validDate(value)) {
+            throw new Error(`${label}日期格式错误`);
+          }
+        }
+      };
+    case SqlType.time:
+      return { ...item, mkTrigger: 'change', mkPattern: /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/ };
+    case SqlType.char:
+    case SqlType.varchar:
+      return field.length === undefined ? item : { ...item, mkLeLength: field.length };
+    default:
+      return item;
+  }
+};
+/**
+ * 由字段定义生成 ValidForm 的验证规则,主键、uuid 与逻辑删除字段除外
+ *
+ * notNull 为 required,char/varchar 的 length 为 mkLeLength,数字类型按取值范围与小数位校验,日期类型校验格式
+ * ```typescript
+ * const UserValid = validRulesFromEntity(User, { mobile: { mkInlay: 'mobile' } });
+ * const rules = new ValidForm<User>(formData.value, UserValid).element();
+ * ```
+ * @param overrides 手写的规则,按属性与生成的规则合并,相同的配置以手写的为准
+ */
+export function validRulesFromEntity<T extends object>(clz: new (...args: any[]) => T, overrides: ValidFormType<T>['items'] = {}, mkCustom?: (data: T) => Promise<void>): ValidFormType<T> {
+  const metadata = getEntityMetadata(clz);
+  const skips = [metadata.logicDelete?.P, metadata.deletedAt?.P, metadata.deletedBy?.P];
+  const items: Record<string, ValidItemType<T>> = Object.fromEntries(metadata.columns
+    .map(P => metadata.fields[P]!)
+    .filter(field => !readOnlyField(field) && !skips.includes(field.P))
+    .map(field => [field.P!, validItemOf<T>(field)]));
+  for (const [P, item] of Object.entries(overrides)) {
+    items[P] = { ...items[P], ...item as ValidItemType<T> };
+  }
+  return { items: items as ValidFormType<T>['items'], ...(mkCustom ? { mkCustom } : {}) };
+}
+
 //#region 类型定义
 type Paths<T, ParentPath extends string = ''> = {
   [K in keyof T]: T[K] extends Record<string, any> | Array<any>
@@ -0,0 +1,351 @@
+/**
+ * XLSX 导入导出,依赖 node:zlib,只能在服务端使用,因此不放在主入口:
+ * ```typescript
+ * import { exportXlsx, importXlsx } from 'baja-lite-field/xlsx';
+ * ```
+ */
+import { deflateRawSync, inflateRawSync } from 'node:zlib';
+import { _tabular, SqlType } from './index.js';
+import type { AField, ImportOption, ImportResult } from './index.js';
+
+const { csvFields, csvTitle, csvText, enumOf, importRecords, collectImport, toDate, formatDate, formatTime, tableOptionOf, NUMERIC_TYPES } = _tabular;
+const crcTable = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+const crc32 = (data: Buffer) => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+/** 打包 zip,文件均使用 deflate 压缩 */
+const zip = (files: [string, string][]): Buffer => {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of files) {
+    const data = Buffer.from(content, 'utf8');
+    const compressed = deflateRawSync(data);
+    const fileName = Buffer.from(name, 'utf8');
+    const crc = crc32(data);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    // 文件名为 UTF-8
+    local.writeUInt16LE(0x0800, 6);
+    local.writeUInt16LE(8, 8);
+    // 1980-01-01 00:00
+    local.writeUInt16LE(33, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(33, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, fileName, compressed);
+    centrals.push(central, fileName);
+    offset += local.length + fileName.length + compressed.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+};
+/** 解压 zip,只支持存储与 deflate */
+const unzip = (buffer: Buffer): Map<string, Buffer> => {
+  let end = buffer.length - 22;
+  while (end >= 0 && buffer.readUInt32LE(end) !== 0x06054b50) {
+    end--;
+  }
+  if (end < 0) {
+    throw new Error('not a xlsx file');
+  }
+  const files = new Map<string, Buffer>();
+  const count = buffer.readUInt16LE(end + 10);
+  let pos = buffer.readUInt32LE(end + 16);
+  for (let i = 0; i < count; i++) {
+    const method = buffer.readUInt16LE(pos + 10);
+    const size = buffer.readUInt32LE(pos + 20);
+    const nameLength = buffer.readUInt16LE(pos + 28);
+    const offset = buffer.readUInt32LE(pos + 42);
+    const name = buffer.toString('utf8', pos + 46, pos + 46 + nameLength);
+    const start = offset + 30 + buffer.readUInt16LE(offset + 26) + buffer.readUInt16LE(offset + 28);
+    const data = buffer.subarray(start, start + size);
+    files.set(name, method === 8 ? inflateRawSync(data) : Buffer.from(data));
+    pos += 46 + nameLength + buffer.readUInt16LE(pos + 30) + buffer.readUInt16LE(pos + 32);
+  }
+  return files;
+};
+const xmlEscape = (text: string) => text
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+  // XML 1.0 不允许的控制字符
+  .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '');
+const xmlUnescape = (text: string) => text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+  switch (entity) {
+    case 'lt': return '<';
+    case 'gt': return '>';
+    case 'amp': return '&';
+    case 'quot': return '"';
+    case 'apos': return "'";
+    default: return String.fromCodePoint(entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.substring(2), 16) : +entity.substring(1));
+  }
+});
+const xmlAttrs = (text: string) => Object.fromEntries([...text.matchAll(/([\w:]+)="([^"]*)"/g)].map(([, name, value]) => [name!, xmlUnescape(value!)]));
+/** 富文本、内联文本中全部 <t> 的内容,忽略拼音 */
+const xmlText = (text: string) => [...text.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map(([, t]) => xmlUnescape(t!)).join('');
+/** 0 => A, 26 => AA */
+const columnName = (index: number): string => index < 26 ? String.fromCharCode(65 + index) : columnName(Math.floor(index / 26) - 1) + columnName(index % 26);
+const columnIndex = (ref: string) => [...ref.replace(/\d+$/, '').toUpperCase()].reduce((index, char) => index * 26 + char.charCodeAt(0) - 64, 0) - 1;
+/** 本地时间转为 Excel 日期序列号 */
+const toSerial = (date: Date) => Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()) / 86400000 + 25569;
+const fromSerial = (serial: number) => {
+  const date = new Date(Math.round((serial - 25569) * 86400000));
+  return new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds());
+};
+/** 显示宽度,中文按两个字符计算 */
+const textWidth = (text: string) => [...text].reduce((width, char) => width + (char.charCodeAt(0) > 0xff ? 2 : 1), 0);
+const XLSX_MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const XLSX_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+export interface XlsxSheet<T extends object = any> {
+  clz: new (...args: any[]) => T;
+  rows: T[];
+  /** 工作表名称,默认为表注释,没有注释时为类名 */
+  name?: string;
+  /** 导出的属性及顺序,默认为 exportable 的字段,按声明顺序 */
+  columns?: (keyof T & string)[];
+  /** 是否冻结标题行,默认TRUE */
+  freeze?: boolean;
+}
+export interface XlsxImportOption<T> extends ImportOption<T> {
+  /** 工作表名称或序号(从0开始),默认第一个 */
+  sheet?: string | number;
+}
+/**
+ * 导出XLSX,每个实体一个工作表
+ *
+ * 标题为字段注释,列宽按 length 计算;日期、数字写为对应类型的单元格,枚举字段带下拉选择
+ * ```typescript
+ * fs.writeFileSync('user.xlsx', exportXlsx([{ clz: User, rows: users }, { clz: Order, rows: orders, name: '订单' }]));
+ * ```
+ */
+export function exportXlsx(sheets: XlsxSheet | XlsxSheet[]): Buffer {
+  const list = Array.isArray(sheets) ? sheets : [sheets];
+  // 数字格式 => 样式序号,0 为默认,1 为标题
+  const formats = new Map<string, number>();
+  const styleOf = (format: string) => {
+    if (!formats.has(format)) {
+      formats.set(format, formats.size + 2);
+    }
+    return formats.get(format)!;
+  };
+  // 选项过长或含逗号的枚举写入隐藏的工作表
+  const enumColumns = new Map<object, string>();
+  const enumSheet: string[][] = [];
+  const names = new Set<string>();
+  const files: [string, string][] = [];
+  list.forEach((sheet, n) => {
+    const { fields } = csvFields(sheet.clz, 'exportable', sheet.columns);
+    let name = (sheet.name ?? tableOptionOf(sheet.clz).comment ?? sheet.clz.name).replace(/[\[\]:*?\/\\]/g, '_').substring(0, 31);
+    for (let i = 2; names.has(name); i++) {
+      name = `${name.substring(0, 28)}(${i})`;
+    }
+    names.add(name);
+    const cols = fields.map((field, i) => {
+      const width = field.length ?? (field.type === SqlType.datetime || field.type === SqlType.timestamp ? 20 : NUMERIC_TYPES.includes(field.type!) || field.type === SqlType.date ? 12 : 16);
+      return `<col min="${i + 1}" max="${i + 1}" width="${Math.min(Math.max(width, textWidth(csvTitle(field))) + 2, 60)}" customWidth="1"/>`;
+    });
+    const cell = (field: AField, index: number, r: number, value: any) => {
+      const ref = `${columnName(index)}${r}`;
+      if (value === null || value === undefined) {
+        return '';
+      }
+      if (!enumOf(field)) {
+        switch (field.type) {
+          case SqlType.date:
+          case SqlType.datetime:
+          case SqlType.timestamp: {
+            const date = toDate(value);
+            if (!isNaN(+date)) {
+              return `<c r="${ref}" s="${styleOf(field.type === SqlType.date ? 'yyyy-mm-dd' : 'yyyy-mm-dd hh:mm:ss')}"><v>${toSerial(date)}</v></c>`;
+            }
+            break;
+          }
+          case SqlType.tinyint:
+          case SqlType.smallint:
+          case SqlType.mediumint:
+          case SqlType.int:
+          case SqlType.year:
+          case SqlType.float:
+          case SqlType.double:
+          case SqlType.decimal: {
+            // bigint 超出双精度,按文本写入
+            const number = Number(value);
+            if (value !== '' && isFinite(number)) {
+              const s = field.type === SqlType.decimal && field.scale ? ` s="${styleOf(`0.${'0'.repeat(field.scale)}`)}"` : '';
+              return `<c r="${ref}"${s}><v>${number}</v></c>`;
+            }
+            break;
+          }
+        }
+      }
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(csvText(field, value))}</t></is></c>`;
+    };
+    const rows = [
+      `<row r="1">${fields.map((field, i) => `<c r="${columnName(i)}1" s="1" t="inlineStr"><is><t>${xmlEscape(csvTitle(field))}</t></is></c>`).join('')}</row>`,
+      ...sheet.rows.map((row, r) => `<row r="${r + 2}">${fields.map((field, i) => cell(field, i, r + 2, row[field.P!])).join('')}</row>`)
+    ];
+    const validations = fields.map((field, i) => {
+      const labels = enumOf(field);
+      if (!labels) {
+        return '';
+      }
+      const options = Object.values(labels);
+      let formula = `"${options.join(',')}"`;
+      if (formula.length > 255 || options.some(option => option.includes(',') || option.includes('"'))) {
+        if (!enumColumns.has(field.enum!)) {
+          enumColumns.set(field.enum!, columnName(enumColumns.size));
+          enumSheet.push(options);
+        }
+        const column = enumColumns.get(field.enum!)!;
+        formula = `_enums!$${column}$1:$${column}$${options.length}`;
+      }
+      return `<dataValidation type="list" allowBlank="1" showErrorMessage="1" sqref="${columnName(i)}2:${columnName(i)}1048576"><formula1>${xmlEscape(formula)}</formula1></dataValidation>`;
+    }).filter(validation => validation !== '');
+    files.push([`xl/worksheets/sheet${n + 1}.xml`, `${XML_HEAD}<worksheet xmlns="${XLSX_MAIN}" xmlns:r="${XLSX_REL}">`
+      + `<dimension ref="A1:${columnName(Math.max(fields.length, 1) - 1)}${sheet.rows.length + 1}"/>`
+      + `<sheetViews><sheetView workbookViewId="0"${n === 0 ? ' tabSelected="1"' : ''}>${sheet.freeze === false ? '' : '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>'}</sheetView></sheetViews>`
+      + `<sheetFormatPr defaultRowHeight="15"/>`
+      + (cols.length > 0 ? `<cols>${cols.join('')}</cols>` : '')
+      + `<sheetData>${rows.join('')}</sheetData>`
+      + (validations.length > 0 ? `<dataValidations count="${validations.length}">${validations.join('')}</dataValidations>` : '')
+      + '</worksheet>']);
+  });
+  const sheetNames = [...names];
+  if (enumSheet.length > 0) {
+    const length = Math.max(...enumSheet.map(options => options.length));
+    const rows = Array.from({ length }, (_, r) => `<row r="${r + 1}">${enumSheet.map((options, i) => options[r] === undefined ? '' : `<c r="${columnName(i)}${r + 1}" t="inlineStr"><is><t>${xmlEscape(options[r])}</t></is></c>`).join('')}</row>`);
+    files.push([`xl/worksheets/sheet${list.length + 1}.xml`, `${XML_HEAD}<worksheet xmlns="${XLSX_MAIN}"><sheetData>${rows.join('')}</sheetData></worksheet>`]);
+    sheetNames.push('_enums');
+  }
+  const numFmts = [...formats.keys()].map((format, i) => `<numFmt numFmtId="${164 + i}" formatCode="${xmlEscape(format)}"/>`);
+  const xfs = [...formats.keys()].map((_, i) => `<xf numFmtId="${164 + i}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>`);
+  return zip([
+    ['[Content_Types].xml', `${XML_HEAD}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+      + sheetNames.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+      + '</Types>'],
+    ['_rels/.rels', `${XML_HEAD}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + `<Relationship Id="rId1" Type="${XLSX_REL}/officeDocument" Target="xl/workbook.xml"/></Relationships>`],
+    ['xl/workbook.xml', `${XML_HEAD}<workbook xmlns="${XLSX_MAIN}" xmlns:r="${XLSX_REL}"><sheets>`
+      + sheetNames.map((name, i) => `<sheet name="${xmlEscape(name)}" sheetId="${i + 1}"${i >= list.length ? ' state="hidden"' : ''} r:id="rId${i + 1}"/>`).join('')
+      + '</sheets></workbook>'],
+    ['xl/_rels/workbook.xml.rels', `${XML_HEAD}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + sheetNames.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${XLSX_REL}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+      + `<Relationship Id="rId${sheetNames.length + 1}" Type="${XLSX_REL}/styles" Target="styles.xml"/></Relationships>`],
+    ['xl/styles.xml', `${XML_HEAD}<styleSheet xmlns="${XLSX_MAIN}">`
+      + (numFmts.length > 0 ? `<numFmts count="${numFmts.length}">${numFmts.join('')}</numFmts>` : '')
+      + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+      + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+      + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+      + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+      + `<cellXfs count="${xfs.length + 2}"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>${xfs.join('')}</cellXfs>`
+      + '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>'
+      + '</styleSheet>'],
+    ...files
+  ]);
+}
+/** 读取工作表的全部单元格文本,日期格式的数字转为本地时间文本 */
+const xlsxRecords = (buffer: Buffer, sheet: string | number = 0): string[][] => {
+  const files = unzip(buffer);
+  const read = (name: string) => files.get(name)?.toString('utf8') ?? '';
+  const workbook = read('xl/workbook.xml');
+  const targets = Object.fromEntries([...read('xl/_rels/workbook.xml.rels').matchAll(/<Relationship\b([^>]*)>/g)].map(([, attrs]) => {
+    const { Id, Target } = xmlAttrs(attrs!);
+    return [Id, Target!.startsWith('/') ? Target!.substring(1) : `xl/${Target}`];
+  }));
+  const sheets = [...workbook.matchAll(/<sheet\b([^>]*)>/g)].map(([, attrs]) => xmlAttrs(attrs!));
+  const target = typeof sheet === 'number' ? sheets[sheet] : sheets.find(item => item['name'] === sheet);
+  if (!target) {
+    throw new Error(`sheet ${sheet} not found`);
+  }
+  const shared = [...read('xl/sharedStrings.xml').matchAll(/<si>([\s\S]*?)<\/si>/g)].map(([, si]) => xmlText(si!));
+  const styles = read('xl/styles.xml');
+  const customFormats = Object.fromEntries([...styles.matchAll(/<numFmt\b([^>]*)>/g)].map(([, attrs]) => {
+    const { numFmtId, formatCode } = xmlAttrs(attrs!);
+    return [numFmtId, formatCode];
+  }));
+  const dateStyles = [...(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(styles)?.[1] ?? '').matchAll(/<xf\b([^>]*)>/g)].map(([, attrs]) => {
+    const id = +(xmlAttrs(attrs!)['numFmtId'] ?? 0);
+    const format = customFormats[id];
+    return (id >= 14 && id <= 22) || (id >= 45 && id <= 47) || (format !== undefined && /[ymdhs]/i.test(format.replace(/"[^"]*"|\[[^\]]*\]|\\./g, '')));
+  });
+  const records: string[][] = [];
+  for (const [, rowAttrs, content] of read(targets[target['r:id']!]!).matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const r = +(xmlAttrs(rowAttrs!)['r'] ?? records.length + 1);
+    // 空行不会写入文件,补齐以保持行号
+    while (records.length < r - 1) {
+      records.push([]);
+    }
+    const cells: string[] = [];
+    for (const [, cellAttrs, inner = ''] of (content ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const { r: ref, t, s } = xmlAttrs(cellAttrs!);
+      const value = xmlUnescape(/<v>([\s\S]*?)<\/v>/.exec(inner)?.[1] ?? '');
+      const index = ref ? columnIndex(ref) : cells.length;
+      while (cells.length < index) {
+        cells.push('');
+      }
+      if (t === 's') {
+        cells[index] = shared[+value] ?? '';
+      } else if (t === 'inlineStr') {
+        cells[index] = xmlText(inner);
+      } else if (t === 'b') {
+        cells[index] = value === '1' ? 'TRUE' : 'FALSE';
+      } else if (t === undefined || t === 'n') {
+        if (value !== '' && dateStyles[+(s ?? 0)]) {
+          const date = fromSerial(+value);
+          cells[index] = +value < 1 ? formatTime(date) : `${formatDate(date)} ${formatTime(date)}`;
+        } else {
+          cells[index] = value;
+        }
+      } else {
+        cells[index] = value;
+      }
+    }
+    records.push(cells);
+  }
+  return records;
+};
+/**
+ * 导入XLSX,规则同 importCsv;文件无法解析时返回被拒绝的 Promise
+ * @param buffer 文件内容
+ */
+export async function importXlsx<T extends object>(clz: new (...args: any[]) => T, buffer: Buffer, option: XlsxImportOption<T> = {}): Promise<ImportResult<T>> {
+  return collectImport(importRecords(clz, xlsxRecords(buffer, option.sheet), option));
+}
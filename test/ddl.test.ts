@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createTableSql, DBType, diffSchema, entitySnapshot, entitySource, Field, getEntityMetadata, Index, migrationSql, parseCreateTable, SqlDefaults, SqlType, Table } from '../src/index.js';
+
+@Table({ comment: '文章' })
+@Index('idx_article_title', ['title', 'group'])
+class Article {
+  @Field({ type: SqlType.bigint, id: true })
+  id?: number;
+  @Field({ type: SqlType.varchar, length: 64, notNull: true, comment: '标题' })
+  title?: string;
+  @Field({ type: SqlType.mediumint, def: 5 })
+  group?: number;
+  @Field({ type: SqlType.decimal, length: 10, scale: 2 })
+  price?: number;
+  @Field({ type: SqlType.blob })
+  cover?: Uint8Array;
+  @Field({ type: SqlType.datetime, def: SqlDefaults.currentTimestamp })
+  createTime?: Date;
+}
+
+const dbTypes = [DBType.Mysql, DBType.Postgresql, DBType.Sqlite];
+
+describe('createTableSql', () => {
+  it('quotes names and renders types for mysql', () => {
+    const sql = createTableSql(Article, DBType.Mysql);
+    assert.match(sql, /CREATE TABLE IF NOT EXISTS `article`/);
+    assert.match(sql, /`title` varchar\(64\) NOT NULL/);
+    assert.match(sql, /`group` mediumint/);
+    assert.match(sql, /`price` decimal\(10, ?2\)/);
+    assert.match(sql, /PRIMARY KEY \(`id`\)/);
+  });
+  it('renders blob as blob in sqlite', () => {
+    const sql = createTableSql(Article, DBType.Sqlite);
+    assert.match(sql, /"cover" blob/);
+    assert.match(sql, /"group" integer/);
+  });
+  it('keeps column fragments unquoted', () => {
+    const field = getEntityMetadata(Article).fields['group']!;
+    assert.equal(field[DBType.Mysql]().replace(/\s+/g, ' ').trim(), 'group mediumint DEFAULT 5');
+    assert.match(createTableSql(Article, DBType.Postgresql), /"group" /);
+  });
+});
+
+describe('parseCreateTable', () => {
+  for (const dbType of dbTypes) {
+    it(`round trips ${DBType[dbType]} without changes`, () => {
+      const [parsed] = parseCreateTable(createTableSql(Article, dbType), dbType);
+      assert.ok(parsed);
+      const diff = diffSchema(parsed, entitySnapshot(Article), { dbType });
+      assert.deepEqual([diff.added, diff.dropped, diff.renamed, diff.changed], [[], [], [], []]);
+      assert.equal(diff.idChanged, false);
+      assert.equal(migrationSql(diff, dbType).length, 0);
+    });
+  }
+});
+
+describe('diffSchema', () => {
+  class ArticleV2 {
+    @Field({ type: SqlType.bigint, id: true })
+    id?: number;
+    @Field({ type: SqlType.varchar, length: 128, notNull: true, comment: '标题' })
+    subject?: string;
+    @Field({ type: SqlType.int, notNull: true })
+    views?: number;
+  }
+  const from = entitySnapshot(Article);
+  const to = entitySnapshot(ArticleV2, 'article');
+  const diff = diffSchema(from, to, { renames: { subject: 'title' } });
+
+  it('detects added, dropped and renamed columns', () => {
+    assert.deepEqual(diff.added.map(field => field.P), ['views']);
+    assert.deepEqual(diff.dropped.map(field => field.P), ['group', 'price', 'cover', 'createTime']);
+    assert.equal(diff.renamed.length, 1);
+    assert.ok(diff.renamed[0]!.changes.includes('length'));
+  });
+  it('migrates mysql in place', () => {
+    assert.deepEqual(migrationSql(diff, DBType.Mysql).filter(sql => sql.startsWith('ALTER TABLE')).map(sql => sql.split(' ').slice(0, 6).join(' ')), [
+      'ALTER TABLE `article` CHANGE COLUMN `title`',
+      'ALTER TABLE `article` DROP COLUMN `group`',
+      'ALTER TABLE `article` DROP COLUMN `price`',
+      'ALTER TABLE `article` DROP COLUMN `cover`',
+      'ALTER TABLE `article` DROP COLUMN `create_time`',
+      'ALTER TABLE `article` ADD COLUMN `views`'
+    ]);
+  });
+  it('rebuilds sqlite tables and fills new not-null columns', () => {
+    const sqls = migrationSql(diff, DBType.Sqlite);
+    assert.ok(sqls.some(sql => sql.startsWith('CREATE TABLE "article__new"')));
+    assert.ok(sqls.includes('INSERT INTO "article__new" ("subject", "id", "views") SELECT "title", "id", 0 FROM "article"'));
+    assert.ok(sqls.includes('ALTER TABLE "article__new" RENAME TO "article"'));
+  });
+});
+
+describe('entitySource', () => {
+  it('generates an entity from a parsed table', () => {
+    const [table] = parseCreateTable('CREATE TABLE user_info (id int PRIMARY KEY, user_name varchar(20) NOT NULL)', DBType.Mysql);
+    const source = entitySource(table!);
+    assert.match(source, /@Table\(\{ name: 'user_info' \}\)/);
+    assert.match(source, /export class UserInfo \{/);
+    assert.match(source, /@Field\(\{ type: SqlType\.varchar, length: 20, notNull: true \}\)\n  userName\?: string;/);
+  });
+});
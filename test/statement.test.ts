@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DBType, deleteSql, Field, insertSql, restoreSql, selectSql, SqlType, updateSql } from '../src/index.js';
+
+class Post {
+  @Field({ type: SqlType.varchar, length: 32, id: true })
+  id?: string;
+  @Field({ type: SqlType.varchar, length: 64 })
+  title?: string;
+  @Field({ type: SqlType.int, def: 1 })
+  sort?: number;
+  @Field({ type: SqlType.tinyint, notNull: true, logicDelete: 0, def: 1 })
+  status?: number;
+  @Field({ type: SqlType.varchar, length: 32, deletedBy: true })
+  deletedBy?: string;
+}
+
+describe('insertSql', () => {
+  it('fills defaults', () => {
+    assert.deepEqual(insertSql(Post, { id: 'a', title: 't' }, DBType.Mysql), {
+      sql: 'INSERT INTO `post` (`id`, `title`, `sort`, `status`) VALUES (?, ?, ?, ?)',
+      params: ['a', 't', 1, 1]
+    });
+  });
+  it('uses numbered placeholders in postgresql', () => {
+    assert.equal(insertSql(Post, [{ id: 'a' }, { id: 'b' }], DBType.Postgresql, { fillDef: false }).sql, 'INSERT INTO "post" ("id") VALUES ($1), ($2)');
+  });
+});
+
+describe('updateSql', () => {
+  it('updates present fields of undeleted rows by id', () => {
+    assert.deepEqual(updateSql(Post, { id: 'a', title: 't' }, DBType.Mysql), {
+      sql: 'UPDATE `post` SET `title` = ? WHERE `id` = ? AND `status` <> ?',
+      params: ['t', 'a', 0]
+    });
+  });
+});
+
+describe('deleteSql', () => {
+  it('marks rows deleted', () => {
+    assert.deepEqual(deleteSql(Post, { id: 'a' }, DBType.Mysql, { deletedBy: 'admin' }), {
+      sql: 'UPDATE `post` SET `status` = ?, `deleted_by` = ? WHERE `id` = ? AND `status` <> ?',
+      params: [0, 'admin', 'a', 0]
+    });
+  });
+  it('deletes physically', () => {
+    assert.equal(deleteSql(Post, { id: 'a' }, DBType.Sqlite, { physical: true }).sql, 'DELETE FROM "post" WHERE "id" = ?');
+  });
+  it('rejects an empty condition', () => {
+    assert.throws(() => deleteSql(Post, {}, DBType.Mysql));
+  });
+});
+
+describe('restoreSql', () => {
+  it('restores the default state', () => {
+    assert.deepEqual(restoreSql(Post, { id: 'a' }, DBType.Mysql), {
+      sql: 'UPDATE `post` SET `status` = ?, `deleted_by` = NULL WHERE `id` = ? AND `status` = ?',
+      params: [1, 'a', 0]
+    });
+  });
+  it('requires a def on the state field', () => {
+    class Draft { }
+    assert.throws(() => Field({ type: SqlType.int, logicDelete: 1 })(Draft.prototype, 'state'), /state logicDelete requires a def/);
+  });
+});
+
+describe('selectSql', () => {
+  it('selects the given columns of undeleted rows', () => {
+    assert.deepEqual(selectSql(Post, { title: 't' }, DBType.Mysql, { columns: ['id', 'title'] }), {
+      sql: 'SELECT `id` `id`, `title` `title` FROM `post` WHERE `title` = ? AND `status` <> ?',
+      params: ['t', 0]
+    });
+  });
+  it('includes deleted rows on demand', () => {
+    assert.equal(selectSql(Post, {}, DBType.Sqlite, { columns: ['deletedBy'], withDeleted: true }).sql, 'SELECT "deleted_by" "deletedBy" FROM "post"');
+  });
+  it('rejects unknown columns', () => {
+    assert.throws(() => selectSql(Post, {}, DBType.Mysql, { columns: ['name' as any] }), /name is not a field of Post/);
+  });
+});
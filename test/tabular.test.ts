@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Enum, exportCsv, fake, Field, importCsv, SqlType } from '../src/index.js';
+import { exportXlsx, importXlsx } from '../src/xlsx.js';
+
+const Gender = [new Enum('1', '男'), new Enum('2', '女')];
+
+class Member {
+  @Field({ type: SqlType.varchar, length: 32, id: true, uuid: true })
+  id?: string;
+  @Field({ type: SqlType.varchar, length: 32, notNull: true, comment: '姓名' })
+  name?: string;
+  @Field({ type: SqlType.char, length: 1, enum: Gender, comment: '性别' })
+  gender?: string;
+  @Field({ type: SqlType.int, comment: '年龄' })
+  age?: number | null;
+  @Field({ type: SqlType.date, comment: '生日' })
+  birthday?: Date;
+  @Field({ type: SqlType.json, def: { tags: [] }, exportable: false, importable: false })
+  ext?: { tags: string[] };
+}
+
+const rows: Member[] = [
+  { id: 'a', name: '张三', gender: '1', age: 20, birthday: new Date(2000, 0, 2) },
+  { id: 'b', name: 'Li, "Si"', gender: '2', age: null, birthday: new Date(1999, 11, 31) }
+];
+const imported = rows.map(({ id, ...row }) => ({ ...row, age: row.age ?? null }));
+
+describe('csv', () => {
+  it('exports titles and enum descriptions', () => {
+    assert.equal(exportCsv(Member, rows, { bom: false }), '姓名,性别,年龄,生日\r\n张三,男,20,2000-01-02\r\n"Li, ""Si""",女,,1999-12-31\r\n');
+  });
+  it('round trips rows', async () => {
+    const result = await importCsv(Member, exportCsv(Member, rows));
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.data.map(row => ({ ...row })), imported);
+  });
+  it('reports invalid cells', async () => {
+    const result = await importCsv(Member, '姓名,性别\r\n,未知\r\n');
+    assert.deepEqual(result.errors.map(error => error.row), [2, 2]);
+  });
+  it('rejects unknown columns', () => {
+    assert.throws(() => exportCsv(Member, rows, { columns: ['email' as any] }), /email is not a field of Member/);
+  });
+});
+
+describe('xlsx', () => {
+  it('round trips rows', async () => {
+    const result = await importXlsx(Member, exportXlsx({ clz: Member, rows }));
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.data.map(row => ({ ...row })), imported);
+  });
+});
+
+describe('fake', () => {
+  it('is repeatable with the same seed', () => {
+    assert.deepEqual(fake(Member, { count: 3, seed: 7 }), fake(Member, { count: 3, seed: 7 }));
+  });
+  it('respects field definitions', () => {
+    for (const row of fake(Member, { count: 20 })) {
+      assert.equal(typeof row.name, 'string');
+      assert.ok(row.name!.length <= 32);
+      assert.ok(row.gender === null || ['1', '2'].includes(row.gender!));
+    }
+  });
+  it('applies overrides and clones object defaults', () => {
+    const [a, b] = fake(Member, { count: 2, overrides: index => ({ name: `m${index}` }) });
+    assert.deepEqual([a!.name, b!.name], ['m0', 'm1']);
+    a!.ext!.tags.push('x');
+    assert.deepEqual(b!.ext, { tags: [] });
+  });
+});